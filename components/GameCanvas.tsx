@@ -1,10 +1,17 @@
 
 import React, { useMemo, useRef, useState, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { PointerLockControls, Sky, Text } from '@react-three/drei';
+import { PointerLockControls, Sky, Stars, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { useGame, getTerrainHeight } from '../context/GameContext';
-import { ItemType, ResourceNodeData, GameEvent, AIPlayer, AIAction } from '../types';
+import { useGame } from '../context/GameContext';
+import { Terrain as WorldTerrain, WATER_LEVEL } from '../engine/terrain';
+import { daylight, sunDirection } from '../engine/daycycle';
+import { BIOME_DATA } from '../data/biomes';
+import { CHUNK_SIZE, chunkBounds, chunkCoords } from '../engine/chunks';
+import { ItemType, GameEvent, AIPlayer, AIAction } from '../types';
+import { GhostStructure, ResourceInstances, StructureInstances, getPickTarget } from './InstancedWorld';
+import { Piece, Placement } from '../engine/building';
+import { stampBlueprint } from '../engine/blueprints';
 
 // --- Components ---
 
@@ -51,62 +58,118 @@ const Rain = ({ count = 1000 }) => {
   );
 };
 
-const Terrain = () => {
-  const { activeEvent } = useGame();
-  
+const CHUNK_SEGMENTS = 32; // Ground resolution per chunk, about one vertex per metre
+
+// One ground tile, meshed when its chunk loads and disposed when it unloads.
+// Keyed by seed as well, since another world has other ground under the same chunk.
+const TerrainChunk: React.FC<{ chunk: string; terrain: WorldTerrain; tint: string }> = ({ chunk, terrain, tint }) => {
+  const [cx, cz] = chunkCoords(chunk);
+  const centerX = (cx + 0.5) * CHUNK_SIZE;
+  const centerZ = (cz + 0.5) * CHUNK_SIZE;
+
   const geometry = useMemo(() => {
-    const size = 200;
-    const segments = 256; 
-    const geom = new THREE.PlaneGeometry(size, size, segments, segments);
+    const geom = new THREE.PlaneGeometry(CHUNK_SIZE, CHUNK_SIZE, CHUNK_SEGMENTS, CHUNK_SEGMENTS);
     const posAttribute = geom.attributes.position;
+    const colors = new Float32Array(posAttribute.count * 3);
+    const low = new THREE.Color();
+    const high = new THREE.Color();
 
     // Apply terrain height function to Z (which becomes Y after rotation)
     for (let i = 0; i < posAttribute.count; i++) {
-      const x = posAttribute.getX(i);
-      const y = posAttribute.getY(i); 
       // Invert Y for Z lookup because of -90deg rotation mapping Local Y to World -Z
-      const height = getTerrainHeight(x, -y); 
+      const x = centerX + posAttribute.getX(i);
+      const z = centerZ - posAttribute.getY(i);
+      const height = terrain.height(x, z);
       posAttribute.setZ(i, height);
+
+      // Ground colour from the biome, broken up by detail noise
+      const [a, b] = BIOME_DATA[terrain.biome(x, z, height)].ground;
+      low.set(a).lerp(high.set(b), terrain.detail(x, z)).toArray(colors, i * 3);
     }
-    
+    geom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
     geom.computeVertexNormals();
     return geom;
-  }, []);
+  }, [terrain, centerX, centerZ]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry} position={[centerX, 0, centerZ]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+      <meshStandardMaterial color={tint} vertexColors flatShading={true} roughness={1} />
+    </mesh>
+  );
+};
+
+const Terrain = () => {
+  const { activeEvent, loadedChunks, worldSeed, terrain } = useGame();
+  const bounds = chunkBounds(loadedChunks);
+  // Darkens every biome under acid rain
+  const tint = activeEvent === GameEvent.ACID_RAIN ? "#707a70" : "#ffffff";
 
   return (
     <group>
       {/* Ground */}
-      <mesh geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
-        <meshStandardMaterial 
-          color={activeEvent === GameEvent.ACID_RAIN ? "#2a332a" : "#3a5a40"} 
-          flatShading={true}
-          roughness={1}
-        />
-      </mesh>
+      {loadedChunks.map(chunk => (
+        <TerrainChunk key={`${worldSeed}:${chunk}`} chunk={chunk} terrain={terrain} tint={tint} />
+      ))}
       
-      {/* Water Plane */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -3, 0]} receiveShadow>
-        <planeGeometry args={[200, 200]} />
-        <meshStandardMaterial 
-          color="#4fc3f7" 
-          transparent 
-          opacity={0.6} 
-          roughness={0.1}
-          metalness={0.8}
-        />
-      </mesh>
+      {/* Water Plane, stretched over the loaded area. Not pickable, so divers can mine beneath it */}
+      {bounds && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[bounds.minX + bounds.width / 2, WATER_LEVEL, bounds.minZ + bounds.depth / 2]} receiveShadow raycast={() => null}>
+          <planeGeometry args={[bounds.width, bounds.depth]} />
+          <meshStandardMaterial 
+            color="#4fc3f7" 
+            transparent 
+            opacity={0.6} 
+            roughness={0.1}
+            metalness={0.8}
+            side={THREE.DoubleSide}
+          />
+        </mesh>
+      )}
     </group>
   );
 };
 
+const GRAVITY = 20; // m/s²
+const FALL_THRESHOLD = 1.0; // Drops smaller than this are stepped down, not fallen
+const STAND_HEIGHT = 1.7; // Eye height above the ground
+
+// Swimming
+const SURFACE_EYE = WATER_LEVEL + 0.3; // Eye height when floating at the surface
+const SWIM_SPEED = 0.5; // Fraction of walking speed
+const BUOYANCY = 3; // m/s², pulls a diver back up
+const SWIM_THRUST = 10; // m/s² from Space (up) or Shift (down)
+const WATER_DRAG = 3; // Fraction of vertical speed lost per second
+const SEABED_CLEARANCE = 0.5; // Eye never goes closer to the bottom than this
+
 const PlayerController = () => {
   const { camera } = useThree();
-  const { checkCollision, playerPosRef, handleDeath, activeEvent, buildMode } = useGame();
+  const { checkCollision, getPlayerPos, setPlayerPos, handleDeath, applyFallDamage, activeEvent, paused, buildMode, worldEpoch, playerHealth, terrain } = useGame();
   const baseSpeed = 8;
   const keys = useRef<Record<string, boolean>>({});
+  // Airborne state: vertical speed and the height the fall started from
+  const fallSpeed = useRef(0);
+  const fallStart = useRef<number | null>(null);
+  const swimSpeed = useRef(0);
 
+  // Teleport to the stored position whenever a save is loaded or a new world starts
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => { keys.current[e.code] = true; };
+    const [x, y, z, dirX, dirZ] = getPlayerPos();
+    camera.position.set(x, y, z);
+    camera.lookAt(x + dirX, y, z + dirZ);
+    fallSpeed.current = 0;
+    fallStart.current = null;
+    swimSpeed.current = 0;
+  }, [worldEpoch, camera, getPlayerPos]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Ignore typing in UI fields (e.g. the world seed input)
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      keys.current[e.code] = true;
+    };
     const handleKeyUp = (e: KeyboardEvent) => { keys.current[e.code] = false; };
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
@@ -117,15 +180,21 @@ const PlayerController = () => {
   }, []);
 
   useFrame((state, delta) => {
-    if (activeEvent === GameEvent.AD_BREAK) return; 
+    if (activeEvent === GameEvent.AD_BREAK || paused || playerHealth <= 0) return; 
 
     const isCrouching = keys.current['ShiftLeft'] || keys.current['ShiftRight'];
     const isRunning = keys.current['CapsLock'];
 
+    // Too deep to stand with the head under (or at) the surface
+    const isSwimming = terrain.height(camera.position.x, camera.position.z) + STAND_HEIGHT < SURFACE_EYE
+      && camera.position.y <= SURFACE_EYE;
+
     let speed = baseSpeed;
-    let targetHeight = 1.7;
+    let targetHeight = STAND_HEIGHT;
 
-    if (isCrouching) {
+    if (isSwimming) {
+      speed = baseSpeed * SWIM_SPEED;
+    } else if (isCrouching) {
       speed = baseSpeed * 0.4;
       targetHeight = 1.0;
     } else if (isRunning) {
@@ -169,19 +238,57 @@ const PlayerController = () => {
       
       // Fall off map check
       if (camera.position.y < -20) {
-         camera.position.set(0, 5, 5); 
-         handleDeath();
+         handleDeath("Fell out of the world");
+         return;
       }
     }
 
     // Terrain Follow (Always active so you don't clip into hills if you turn)
-    const groundHeight = getTerrainHeight(camera.position.x, camera.position.z);
+    const groundHeight = terrain.height(camera.position.x, camera.position.z);
     const desiredY = groundHeight + targetHeight;
-    camera.position.y = THREE.MathUtils.lerp(camera.position.y, desiredY, 10 * delta);
+
+    if (isSwimming && groundHeight + STAND_HEIGHT < SURFACE_EYE) {
+      // Water breaks any fall; momentum carries on as a dive
+      if (fallStart.current !== null) {
+        swimSpeed.current = -fallSpeed.current;
+        fallStart.current = null;
+      }
+      fallSpeed.current = 0;
+
+      const thrust = (keys.current['Space'] ? SWIM_THRUST : 0) - (isCrouching ? SWIM_THRUST : 0);
+      swimSpeed.current += (BUOYANCY + thrust) * delta;
+      swimSpeed.current *= Math.max(0, 1 - WATER_DRAG * delta);
+
+      const y = camera.position.y + swimSpeed.current * delta;
+      const floor = groundHeight + SEABED_CLEARANCE;
+      if (y >= SURFACE_EYE) {
+        camera.position.y = SURFACE_EYE;
+        swimSpeed.current = Math.min(0, swimSpeed.current);
+      } else if (y <= floor) {
+        camera.position.y = floor;
+        swimSpeed.current = Math.max(0, swimSpeed.current);
+      } else {
+        camera.position.y = y;
+      }
+    } else if (camera.position.y > desiredY + FALL_THRESHOLD) {
+      swimSpeed.current = 0;
+      // Off a ledge: fall under gravity instead of gliding down
+      if (fallStart.current === null) fallStart.current = camera.position.y;
+      fallSpeed.current += GRAVITY * delta;
+      camera.position.y = Math.max(desiredY, camera.position.y - fallSpeed.current * delta);
+    } else {
+      if (fallStart.current !== null) {
+        applyFallDamage(fallStart.current - camera.position.y);
+        fallStart.current = null;
+      }
+      fallSpeed.current = 0;
+      swimSpeed.current = 0;
+      camera.position.y = THREE.MathUtils.lerp(camera.position.y, desiredY, 10 * delta);
+    }
     
-    // Update REF with position AND normalized direction (dirX, dirZ)
+    // Report position AND normalized direction (dirX, dirZ) to the engine
     // This ensures dropped items are always 1.5m horizontal distance away
-    playerPosRef.current = [camera.position.x, camera.position.y, camera.position.z, horizontalDir.x, horizontalDir.z];
+    setPlayerPos([camera.position.x, camera.position.y, camera.position.z, horizontalDir.x, horizontalDir.z]);
   });
 
   return null;
@@ -214,28 +321,10 @@ const PlayerTool = () => {
         const hit = intersects[0];
         // Max reach distance 2.5 meters
         if (hit.distance <= 2.5) {
-           let obj = hit.object;
-           while (obj) {
-             if (obj.userData) {
-               if (obj.userData.type === 'RESOURCE') {
-                 hitNode(obj.userData.id);
-                 break;
-               }
-               if (obj.userData.type === 'STRUCTURE') {
-                 hitStructure(obj.userData.id);
-                 break;
-               }
-               if (obj.userData.type === 'PLAYER') {
-                 hitPlayer(obj.userData.id);
-                 break;
-               }
-             }
-             if (obj.parent) {
-               obj = obj.parent;
-             } else {
-               break;
-             }
-           }
+           const target = getPickTarget(hit);
+           if (target?.type === 'RESOURCE') hitNode(target.id);
+           if (target?.type === 'STRUCTURE') hitStructure(target.id);
+           if (target?.type === 'PLAYER') hitPlayer(target.id);
         }
       }
     };
@@ -305,48 +394,65 @@ const PlayerTool = () => {
   );
 };
 
+const INTERACT_REACH = 3; // m
+const SELECT_REACH = 10; // m, blueprint picks can be made from across the base
+
 // Interaction Handler: Handles 'C' to Claim and 'Right Click' to Pickup
 const InteractionHandler = () => {
   const { camera, scene } = useThree();
-  const { structures, claimStructure, pickupStructure, addLog, isMenuOpen, buildMode } = useGame();
+  const { structures, claimStructure, pickupStructure, fuelStructure, upgradeStructure, repairStructure, toggleBlueprintSelection, addLog, isMenuOpen, buildMode } = useGame();
 
   useEffect(() => {
     const handleInput = (e: KeyboardEvent | MouseEvent) => {
       if (isMenuOpen || buildMode.active) return;
 
       const isClaimKey = e instanceof KeyboardEvent && e.code === 'KeyC';
+      const isFuelKey = e instanceof KeyboardEvent && e.code === 'KeyF';
+      const isUpgradeKey = e instanceof KeyboardEvent && e.code === 'KeyU';
+      const isRepairKey = e instanceof KeyboardEvent && e.code === 'KeyR';
+      const isSelectKey = e instanceof KeyboardEvent && e.code === 'KeyB';
       const isPickupClick = e instanceof MouseEvent && e.button === 2; // Right Click
 
-      if (isClaimKey || isPickupClick) {
+      if (isClaimKey || isFuelKey || isUpgradeKey || isRepairKey || isSelectKey || isPickupClick) {
         const raycaster = new THREE.Raycaster();
         raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
         const intersects = raycaster.intersectObjects(scene.children, true);
 
         if (intersects.length > 0) {
           const hit = intersects[0];
-          if (hit.distance < 3.0) { // Interaction distance
-            let obj = hit.object;
-            while (obj) {
-               if (obj.userData && obj.userData.type === 'STRUCTURE') {
-                  const id = obj.userData.id;
-                  const struct = structures.find(s => s.id === id);
-                  
-                  if (isClaimKey) {
-                     if (struct && struct.type === ItemType.MINING_RIG && struct.ownerId) {
-                       claimStructure(id);
-                     } else if (struct && struct.type === ItemType.MINING_RIG && !struct.ownerId) {
-                       addLog("You already own this rig.");
-                     }
-                  }
-                  
-                  if (isPickupClick) {
-                     pickupStructure(id);
+          if (hit.distance < (isSelectKey ? SELECT_REACH : INTERACT_REACH)) {
+            const target = getPickTarget(hit);
+            if (target?.type === 'STRUCTURE') {
+               const id = target.id;
+               const struct = structures.find(s => s.id === id);
+               
+               if (isClaimKey) {
+                  if (struct && struct.type === ItemType.MINING_RIG && struct.ownerId) {
+                    claimStructure(id);
+                  } else if (struct && struct.type === ItemType.MINING_RIG && !struct.ownerId) {
+                    addLog("You already own this rig.");
                   }
+               }
+               
+               if (isFuelKey) {
+                  fuelStructure(id);
+               }
+
+               if (isUpgradeKey) {
+                  upgradeStructure(id);
+               }
 
-                  break;
+               if (isRepairKey) {
+                  repairStructure(id);
+               }
+
+               if (isSelectKey) {
+                  toggleBlueprintSelection(id);
+               }
+
+               if (isPickupClick) {
+                  pickupStructure(id);
                }
-               if (obj.parent) obj = obj.parent;
-               else break;
             }
           }
         }
@@ -359,12 +465,19 @@ const InteractionHandler = () => {
       window.removeEventListener('keydown', handleInput as any);
       window.removeEventListener('mousedown', handleInput as any);
     };
-  }, [camera, scene, structures, claimStructure, pickupStructure, isMenuOpen, buildMode, addLog]);
+  }, [camera, scene, structures, claimStructure, pickupStructure, fuelStructure, upgradeStructure, repairStructure, toggleBlueprintSelection, isMenuOpen, buildMode, addLog]);
 
   return null;
 };
 
 // AI Character Mesh
+// Shown next to a bot's name so the player can read its mood
+const COMBAT_BADGES: Partial<Record<AIAction, string>> = {
+  [AIAction.ATTACKING]: '⚔️',
+  [AIAction.FLEEING]: '💨',
+  [AIAction.DEFENDING]: '🛡️'
+};
+
 const AIModel: React.FC<{ bot: AIPlayer }> = ({ bot }) => {
   const groupRef = useRef<THREE.Group>(null);
   const pickaxeRef = useRef<THREE.Group>(null);
@@ -386,7 +499,7 @@ const AIModel: React.FC<{ bot: AIPlayer }> = ({ bot }) => {
     
     // Animate pickaxe if mining
     if (pickaxeRef.current) {
-      if (bot.action === AIAction.MINING) {
+      if (bot.action === AIAction.MINING || bot.action === AIAction.ATTACKING) {
         const time = state.clock.elapsedTime * 10;
         pickaxeRef.current.rotation.x = -Math.abs(Math.sin(time)) * 1.5;
       } else {
@@ -405,8 +518,8 @@ const AIModel: React.FC<{ bot: AIPlayer }> = ({ bot }) => {
   return (
     <group ref={groupRef} position={new THREE.Vector3(...bot.position)} userData={{ id: bot.id, type: 'PLAYER' }}>
       {/* Name Tag */}
-      <Text position={[0, 2.2, 0]} fontSize={0.3} color={bot.color} anchorX="center" anchorY="bottom">
-        {bot.name}
+      <Text position={[0, 2.2, 0]} fontSize={0.3} color={bot.action === AIAction.ATTACKING ? 'red' : bot.color} anchorX="center" anchorY="bottom">
+        {COMBAT_BADGES[bot.action] ? `${COMBAT_BADGES[bot.action]} ${bot.name}` : bot.name}
       </Text>
 
       {/* Health Bar */}
@@ -456,221 +569,25 @@ const AIModel: React.FC<{ bot: AIPlayer }> = ({ bot }) => {
   )
 }
 
-// Render different meshes for structures
-const StructureModel: React.FC<{ id?: string; type: ItemType; position: number[]; rotation: number; isGhost?: boolean; ownerId?: string }> = ({ id, type, position, rotation, isGhost, ownerId }) => {
-  const { activeEvent, globalPot } = useGame();
-  const opacity = isGhost ? 0.5 : 1.0;
-  const transparent = isGhost;
-  const color = isGhost ? "#88ff88" : undefined;
-
-  // Determine Mining Rig state (Active only if placed, no rain, and pot has money)
-  const isMining = !isGhost && activeEvent !== GameEvent.ACID_RAIN && globalPot > 0;
-  
-  // Blinking effect for mining
-  const [blink, setBlink] = useState(true);
-  useEffect(() => {
-    if (!isMining) return;
-    const interval = setInterval(() => setBlink(prev => !prev), 500);
-    return () => clearInterval(interval);
-  }, [isMining]);
-
-  // Common material props
-  const matProps = { transparent, opacity };
-
-  // We wrap the content in a Group with userData to enable Raycasting for destruction
-  const userData = isGhost ? undefined : { id, type: 'STRUCTURE', ownerId };
-
-  // Lighting Colors for Mining Rigs
-  // Player: Green (#00ff88), Bot: Purple (#a855f7)
-  const lightColor = ownerId ? "#a855f7" : "#00ff88";
-  const darkColor = ownerId ? "#3b0764" : "#003311";
-
-  switch (type) {
-    case ItemType.FOUNDATION:
-       return (
-         <group position={[position[0], position[1] - 2, position[2]]} rotation={[0, rotation, 0]} userData={userData}>
-            <mesh>
-              <boxGeometry args={[3, 4, 3]} /> 
-              <meshStandardMaterial color={color || "#555"} {...matProps} />
-            </mesh>
-         </group>
-       );
-    case ItemType.WALL:
-       return (
-         <group position={[position[0], position[1] + 1, position[2]]} rotation={[0, rotation, 0]} userData={userData}>
-           <mesh>
-             <boxGeometry args={[3, 3, 0.2]} />
-             <meshStandardMaterial color={color || "#8b5a2b"} {...matProps} />
-           </mesh>
-           {/* Wall Foundation extension */}
-           <mesh position={[0, -2, 0]}>
-              <boxGeometry args={[3, 1, 0.2]} />
-              <meshStandardMaterial color={color || "#8b5a2b"} {...matProps} />
-           </mesh>
-         </group>
-       );
-    case ItemType.ROOF:
-       return (
-         <group position={[position[0], position[1] + 0.5, position[2]]} rotation={[0, rotation, 0]} userData={userData}>
-            <mesh>
-              <cylinderGeometry args={[0, 2.2, 3, 4, 1, false, Math.PI/4]} />
-              <meshStandardMaterial color={color || "#3e2723"} {...matProps} side={THREE.DoubleSide} />
-            </mesh>
-         </group>
-       );
-    case ItemType.MINING_RIG:
-       return (
-         <group position={[position[0], position[1] + 0.5, position[2]]} rotation={[0, rotation, 0]} userData={userData}>
-            {/* Case */}
-            <mesh>
-               <boxGeometry args={[0.8, 1, 0.8]} />
-               <meshStandardMaterial color={color || "#222"} {...matProps} />
-            </mesh>
-            {/* Lights / Screen - Blink based on status */}
-            <mesh position={[0, 0.2, 0.41]}>
-               <planeGeometry args={[0.6, 0.4]} />
-               <meshStandardMaterial 
-                 color={isMining ? (blink ? lightColor : darkColor) : "#330000"} 
-                 emissive={isMining ? lightColor : "#ff0000"} 
-                 emissiveIntensity={isGhost ? 0 : (isMining ? (blink ? 1 : 0.2) : 0.5)} 
-                 {...matProps}
-               />
-            </mesh>
-            {/* Vents */}
-            <mesh position={[0, -0.3, 0.41]}>
-               <planeGeometry args={[0.6, 0.2]} />
-               <meshStandardMaterial color="#111" {...matProps} />
-            </mesh>
-         </group>
-       );
-    default:
-       return null;
-  }
-};
-
-const ResourceMesh: React.FC<{ node: ResourceNodeData }> = ({ node }) => {
-  const [hovered, setHovered] = useState(false);
-  const [scale, setScale] = useState(1);
-  const meshRef = useRef<THREE.Mesh>(null);
-  const prevHealth = useRef(node.health);
-  
-  // Random rotation for dropped items
-  const randomRotation = useMemo(() => Math.random() * Math.PI * 2, []);
-
-  // Watch health for animation effects
-  useEffect(() => {
-    if (node.health < prevHealth.current) {
-       setScale(0.8);
-       setTimeout(() => setScale(1), 100);
-    }
-    prevHealth.current = node.health;
-  }, [node.health]);
-
-  if (node.health <= 0) return null;
-
-  // Visuals based on type
-  let geometry = <dodecahedronGeometry args={[0.6, 0]} />;
-  let yOffset = 0.35;
-  let castShadow = true;
-  let rotation: [number, number, number] = [0, 0, 0];
-  let color = node.color;
-
-  if (node.type === 'TREE') {
-    geometry = (
-      <group>
-        {/* Leaves raised to y=3 (bottom at 1) to reveal trunk */}
-        <mesh position={[0, 3, 0]}>
-          <coneGeometry args={[1.5, 4, 8]} />
-          <meshStandardMaterial color={node.color} />
-        </mesh>
-        {/* Trunk sits on ground 0 to 1 */}
-        <mesh position={[0, 0.5, 0]}>
-          <cylinderGeometry args={[0.3, 0.4, 1]} />
-          <meshStandardMaterial color="#3d2817" />
-        </mesh>
-      </group>
-    );
-    yOffset = 0;
-  } else if (node.type === 'JUNK') {
-    geometry = <boxGeometry args={[0.8, 0.8, 0.8]} />;
-    yOffset = 0.4;
-  } else if (node.type === 'LOOSE_ITEM') {
-    // Visuals for dropped items
-    if (node.drop === ItemType.WOOD) {
-        // Log lying down
-        geometry = <cylinderGeometry args={[0.1, 0.1, 1]} />;
-        yOffset = 0.1;
-        rotation = [Math.PI / 2, randomRotation, 0]; // Lie flat
-        color = '#5c4033';
-    } else if (node.drop === ItemType.STONE || node.drop === ItemType.COAL || node.drop.includes('Ore')) {
-        // Rock / Ore
-        geometry = <dodecahedronGeometry args={[0.2, 0]} />;
-        yOffset = 0.2;
-        rotation = [Math.random(), Math.random(), Math.random()];
-        
-        // Map Colors
-        if (node.drop === ItemType.STONE) color = '#888';
-        if (node.drop === ItemType.COAL) color = '#222';
-        if (node.drop === ItemType.COPPER_ORE) color = '#b87333';
-        if (node.drop === ItemType.METAL_ORE) color = '#64748b';
-    } else {
-        // Generic Bag/Box
-        geometry = <boxGeometry args={[0.3, 0.3, 0.3]} />;
-        yOffset = 0.15;
-        rotation = [0, randomRotation, 0];
-        color = '#ddd';
-        
-        // Simple color mapping
-        if (node.drop === ItemType.PLASTIC) color = '#38bdf8';
-        if (node.drop === ItemType.RESIN) color = '#eab308';
-        if (node.drop === ItemType.MINING_RIG) color = '#222'; // Dark box for Rig
-    }
-    castShadow = true;
-  }
+// Where the pieces being placed would go, and why each can't (null where it can). A single
+// piece, or every piece of a blueprint with its anchor at the placement.
+interface Ghost extends Placement {
+  pieces: Piece[];
+  problems: (string | null)[];
+}
 
-  return (
-    <group position={[node.position[0], node.position[1] + yOffset, node.position[2]]} rotation={new THREE.Euler(...rotation)}>
-      <mesh 
-        ref={meshRef}
-        userData={{ id: node.id, type: 'RESOURCE' }}
-        onPointerOver={() => setHovered(true)}
-        onPointerOut={() => setHovered(false)}
-        scale={scale}
-        castShadow={castShadow}
-        receiveShadow
-      >
-        {node.type === 'TREE' ? geometry : (
-          <>
-            {geometry}
-            <meshStandardMaterial 
-              color={hovered ? '#ffffff' : color} 
-              emissive={node.type === 'LOOSE_ITEM' ? color : '#000000'}
-              emissiveIntensity={node.type === 'LOOSE_ITEM' && hovered ? 0.5 : 0}
-            />
-          </>
-        )}
-      </mesh>
-      
-      {/* Health Bar for non-instant items */}
-      {hovered && node.maxHealth > 1 && (
-         <Text position={[0, node.type === 'TREE' ? 4.5 : 1.5, 0]} fontSize={0.4} color="white" anchorX="center" anchorY="middle">
-           {Math.ceil((node.health / node.maxHealth) * 100)}%
-         </Text>
-      )}
-    </group>
-  );
-};
+const BUILD_REACH = 20; // m from the camera to the aim point
 
 const BuildSystem = () => {
-  const { buildMode, confirmBuild, rotateBuild, cancelBuildMode } = useGame();
+  const { buildMode, confirmBuild, rotateBuild, cancelBuildMode, snapPlacement, checkPlacement, checkBlueprint } = useGame();
   const { camera, scene } = useThree();
   const raycaster = useMemo(() => new THREE.Raycaster(), []);
   
   // Visual State for React Rendering
-  const [ghostVisualPos, setGhostVisualPos] = useState<[number, number, number] | null>(null);
+  const [ghost, setGhost] = useState<Ghost | null>(null);
   
-  // Ref for Event Listeners (Latest position without re-binding)
-  const ghostPosRef = useRef<[number, number, number] | null>(null);
+  // Ref for Event Listeners (Latest placement without re-binding)
+  const ghostRef = useRef<Ghost | null>(null);
   const buildModeRef = useRef(buildMode);
 
   // Sync buildMode ref
@@ -690,8 +607,8 @@ const BuildSystem = () => {
        // Only build if pointer is locked
        if (!document.pointerLockElement) return;
 
-       if (buildModeRef.current.active && ghostPosRef.current && e.button === 0) { // Left Click
-          confirmBuild(ghostPosRef.current);
+       if (buildModeRef.current.active && ghostRef.current && e.button === 0) { // Left Click
+          confirmBuild(ghostRef.current);
        }
        if (buildModeRef.current.active && e.button === 2) { // Right Click
           cancelBuildMode();
@@ -707,58 +624,81 @@ const BuildSystem = () => {
   }, [confirmBuild, cancelBuildMode, rotateBuild]); 
 
   useFrame(() => {
-    if (!buildMode.active) return;
+    const { blueprint } = buildMode;
+    const type = blueprint ? blueprint.pieces[0].type : buildMode.type;
+    if (!buildMode.active || !type) return;
 
-    // Raycast from center of screen for building
+    // Raycast from center of screen for building. The ghost itself doesn't take hits, so the
+    // aim lands on the ground or on the structure the piece should attach to.
     raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
-    
-    const intersects = raycaster.intersectObjects(scene.children, true);
-    const groundHit = intersects.find(i => i.object.type === 'Mesh' && (i.object as any).geometry.type === 'PlaneGeometry');
-
-    if (groundHit) {
-       let x = groundHit.point.x;
-       let z = groundHit.point.z;
-
-       // Grid Snap (3m)
-       x = Math.round(x / 3) * 3;
-       z = Math.round(z / 3) * 3;
-       const y = getTerrainHeight(x, z);
-       
-       const newPos: [number, number, number] = [x, y, z];
-       
-       // Update Ref for Event Listener
-       ghostPosRef.current = newPos;
-
-       // Update Visual State (Debounced/Check if changed to save renders?)
-       setGhostVisualPos(prev => {
-         if (!prev || prev[0] !== x || prev[1] !== y || prev[2] !== z) return newPos;
-         return prev;
-       });
-    }
+    const hit = raycaster.intersectObjects(scene.children, true).find(i => (i.object as THREE.Mesh).isMesh);
+    if (!hit || hit.distance > BUILD_REACH) return;
+
+    // A blueprint snaps by its anchor piece and the rest follow
+    const { position, rotation } = snapPlacement(type, [hit.point.x, hit.point.y, hit.point.z], buildMode.rotation);
+    const pieces = blueprint ? stampBlueprint(blueprint, { position, rotation }) : [{ type, position, rotation }];
+    const problems = blueprint ? checkBlueprint(pieces) : [checkPlacement(type, position, rotation)];
+
+    // Update Ref for Event Listener
+    ghostRef.current = { position, rotation, pieces, problems };
+
+    // Only re-render when the ghost moves or changes colour
+    setGhost(prev => {
+      const same = prev && prev.rotation === rotation && prev.position.every((v, i) => v === position[i]) &&
+        prev.pieces.length === pieces.length && pieces.every((p, i) => p.type === prev.pieces[i].type && problems[i] === prev.problems[i]);
+      return same ? prev : { position, rotation, pieces, problems };
+    });
   });
 
-  if (!buildMode.active || !buildMode.type || !ghostVisualPos) return null;
+  if (!buildMode.active || !ghost) return null;
 
-  return <StructureModel type={buildMode.type} position={ghostVisualPos} rotation={buildMode.rotation} isGhost={true} />;
+  return (
+    <>
+      {ghost.pieces.map((piece, i) => (
+        <GhostStructure key={i} type={piece.type} position={piece.position} rotation={piece.rotation} valid={ghost.problems[i] === null} />
+      ))}
+    </>
+  );
 }
 
+// Sun, sky and lights follow the time of day; the storm dims all of it
+const NIGHT_AMBIENT = 0.08;
+const DAY_AMBIENT = 0.5;
+
+const Lighting = () => {
+  const { activeEvent, timeOfDay } = useGame();
+  const storm = activeEvent === GameEvent.ACID_RAIN;
+  const light = daylight(timeOfDay);
+  const [sx, sy, sz] = sunDirection(timeOfDay);
+
+  return (
+    <>
+      <Sky sunPosition={[sx * 100, sy * 100, sz * 100]} turbidity={0.1} rayleigh={0.5} mieCoefficient={0.005} mieDirectionalG={0.8} />
+      {light < 0.5 && <Stars radius={200} depth={50} count={3000} factor={4} fade />}
+      <ambientLight
+        intensity={(NIGHT_AMBIENT + (DAY_AMBIENT - NIGHT_AMBIENT) * light) * (storm ? 0.4 : 1)}
+        color={light < 0.5 ? '#8090c0' : '#ffffff'}
+      />
+      <directionalLight 
+        position={[sx * 60, Math.max(sy, 0.05) * 60, sz * 60]} 
+        intensity={light * (storm ? 0.2 : 1)} 
+        castShadow 
+        shadow-mapSize={[2048, 2048]}
+      />
+    </>
+  );
+};
+
 const World = () => {
-  const { resources, structures, aiPlayers } = useGame();
+  const { resources, structures, aiPlayers, blueprintSelection } = useGame();
+  const selected = useMemo(() => structures.filter(s => blueprintSelection.includes(s.id)), [structures, blueprintSelection]);
 
   return (
     <group>
-      {resources.map(node => (
-        <ResourceMesh key={node.id} node={node} />
-      ))}
-      {structures.map(struct => (
-        <StructureModel 
-          key={struct.id} 
-          id={struct.id}
-          type={struct.type} 
-          position={struct.position} 
-          rotation={struct.rotation} 
-          ownerId={struct.ownerId}
-        />
+      <ResourceInstances resources={resources} />
+      <StructureInstances structures={structures} />
+      {selected.map(s => (
+        <GhostStructure key={s.id} type={s.type} position={s.position} rotation={s.rotation} valid selected />
       ))}
       {aiPlayers.map(bot => (
         <AIModel key={bot.id} bot={bot} />
@@ -768,10 +708,11 @@ const World = () => {
 };
 
 export const GameCanvas = () => {
-  const { isMenuOpen, activeEvent, toggleMenu, buildMode } = useGame();
+  const { isMenuOpen, activeEvent, toggleMenu, togglePause, buildMode } = useGame();
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       if (e.code === 'KeyE' || e.code === 'Tab') {
         e.preventDefault();
         if (!isMenuOpen) {
@@ -779,23 +720,17 @@ export const GameCanvas = () => {
         }
         toggleMenu();
       }
+      if (e.code === 'KeyP') togglePause();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isMenuOpen, toggleMenu]);
+  }, [isMenuOpen, toggleMenu, togglePause]);
 
   return (
     <div id="gl-canvas" className="w-full h-full">
       <Canvas shadows camera={{ fov: 75, position: [0, 5, 5] }}>
-        <Sky sunPosition={[100, 20, 100]} turbidity={0.1} rayleigh={0.5} mieCoefficient={0.005} mieDirectionalG={0.8} />
-        <ambientLight intensity={activeEvent === GameEvent.ACID_RAIN ? 0.2 : 0.5} />
-        <directionalLight 
-          position={[50, 50, 25]} 
-          intensity={activeEvent === GameEvent.ACID_RAIN ? 0.2 : 1} 
-          castShadow 
-          shadow-mapSize={[2048, 2048]}
-        />
-        
+        <Lighting />
+
         {activeEvent === GameEvent.ACID_RAIN && <fog attach="fog" args={['#2a332a', 0, 50]} />}
         {activeEvent === GameEvent.ACID_RAIN && <Rain count={3000} />}
 
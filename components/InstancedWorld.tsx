@@ -0,0 +1,548 @@
+
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { useGame } from '../context/GameContext';
+import { ItemType, ResourceNodeData, Structure } from '../types';
+import { ITEMS } from '../engine/registry';
+import { NODE_DATA } from '../data/nodes';
+import { createRng } from '../utils/random';
+import { daylight } from '../engine/daycycle';
+import { hasFuel, isPowered } from '../engine/power';
+import { THROTTLE_TEMP } from '../engine/thermal';
+import { rigTier } from '../engine/rigs';
+import { RIG_TIERS } from '../data/rigs';
+import { COOLER_DATA } from '../data/thermal';
+import { isDamaged } from '../engine/durability';
+
+// --- Instanced World ---
+// Resource nodes and structures are drawn as one InstancedMesh per part and kind instead of
+// one React component per object. Picking goes through the instance id (see getPickTarget).
+
+// One mesh of a model, placed relative to the model's anchor
+interface MeshPart {
+  geometry: THREE.BufferGeometry;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  color?: string; // Fixed colour, otherwise each instance brings its own
+  glow?: boolean; // Unlit, for screens
+  halo?: boolean; // Additive light pool, ignored by picking
+  side?: THREE.Side;
+}
+
+interface Instance {
+  id: string;
+  position: [number, number, number];
+  rotation: [number, number, number];
+  color: string;
+  dim?: string; // Off-beat colour of a blinking instance
+}
+
+export type PickType = 'RESOURCE' | 'STRUCTURE' | 'PLAYER';
+
+// Resolves a raycast hit to the entity it belongs to: instanced batches keep ids per instance,
+// everything else (bots) carries { id, type } in userData somewhere up the parent chain
+export const getPickTarget = (hit: THREE.Intersection): { id: string; type: PickType } | null => {
+  const { userData } = hit.object;
+  if (userData.ids && hit.instanceId !== undefined) {
+    return { id: userData.ids[hit.instanceId], type: userData.type };
+  }
+  let obj: THREE.Object3D | null = hit.object;
+  while (obj) {
+    if (obj.userData?.id && obj.userData.type) return { id: obj.userData.id, type: obj.userData.type };
+    obj = obj.parent;
+  }
+  return null;
+};
+
+// --- Models ---
+const RESOURCE_MODELS = {
+  TREE: [
+    // Leaves raised to y=3 (bottom at 1) to reveal trunk
+    { geometry: new THREE.ConeGeometry(1.5, 4, 8), position: [0, 3, 0] },
+    // Trunk sits on ground 0 to 1
+    { geometry: new THREE.CylinderGeometry(0.3, 0.4, 1), position: [0, 0.5, 0], color: '#3d2817' }
+  ],
+  ROCK: [{ geometry: new THREE.DodecahedronGeometry(0.6, 0) }],
+  JUNK: [{ geometry: new THREE.BoxGeometry(0.8, 0.8, 0.8) }],
+  // Dropped items, shaped by their registry mesh
+  log: [{ geometry: new THREE.CylinderGeometry(0.1, 0.1, 1) }],
+  rock: [{ geometry: new THREE.DodecahedronGeometry(0.2, 0) }],
+  box: [{ geometry: new THREE.BoxGeometry(0.3, 0.3, 0.3) }]
+} satisfies Record<string, MeshPart[]>;
+
+type ResourceModel = keyof typeof RESOURCE_MODELS;
+
+// How far each model's pivot sits above the ground, so rotated items don't sink into it
+const RESOURCE_LIFT: Record<ResourceModel, number> = { TREE: 0, ROCK: 0.35, JUNK: 0.4, log: 0.1, rock: 0.2, box: 0.15 };
+
+const POLE_HEIGHT = 4;
+
+const STRUCTURE_MODELS: Partial<Record<ItemType, MeshPart[]>> = {
+  [ItemType.FOUNDATION]: [{ geometry: new THREE.BoxGeometry(3, 4, 3), position: [0, -2, 0], color: '#555' }],
+  [ItemType.WALL]: [
+    { geometry: new THREE.BoxGeometry(3, 3, 0.2), position: [0, 1, 0], color: '#8b5a2b' },
+    // Wall Foundation extension
+    { geometry: new THREE.BoxGeometry(3, 1, 0.2), position: [0, -1, 0], color: '#8b5a2b' }
+  ],
+  [ItemType.ROOF]: [
+    { geometry: new THREE.CylinderGeometry(0, 2.2, 3, 4, 1, false, Math.PI / 4), position: [0, 0.5, 0], color: '#3e2723', side: THREE.DoubleSide }
+  ],
+  // Rigs are drawn per tier, see RIG_MODELS
+  [ItemType.COAL_GENERATOR]: [
+    { geometry: new THREE.BoxGeometry(1.6, 1.2, 1.2), position: [0, 0.6, 0], color: '#7c2d12' },
+    // Chimney
+    { geometry: new THREE.CylinderGeometry(0.15, 0.2, 1.2), position: [0.5, 1.8, 0], color: '#333' },
+    // Firebox window, lit while burning
+    { geometry: new THREE.PlaneGeometry(0.5, 0.3), position: [0, 0.5, 0.61], glow: true }
+  ],
+  [ItemType.SOLAR_PANEL]: [
+    { geometry: new THREE.CylinderGeometry(0.06, 0.06, 1), position: [0, 0.5, 0], color: '#666' },
+    { geometry: new THREE.BoxGeometry(1.6, 0.05, 1.1), position: [0, 1.05, 0], rotation: [-0.5, 0, 0], color: '#1e3a8a' }
+  ],
+  [ItemType.FAN]: [
+    { geometry: new THREE.BoxGeometry(1, 1, 0.3), position: [0, 0.6, 0], color: '#9ca3af' },
+    // Blades behind the grille
+    { geometry: new THREE.CircleGeometry(0.42, 16), position: [0, 0.6, 0.16], color: '#1f2937', side: THREE.DoubleSide }
+  ],
+  [ItemType.WATER_COOLER]: [
+    // Tank
+    { geometry: new THREE.CylinderGeometry(0.5, 0.5, 1.4, 12), position: [-0.4, 0.7, 0], color: '#0ea5e9' },
+    // Radiator
+    { geometry: new THREE.BoxGeometry(0.8, 1.2, 0.2), position: [0.5, 0.6, 0], color: '#475569' }
+  ],
+  [ItemType.POWER_POLE]: [
+    { geometry: new THREE.CylinderGeometry(0.08, 0.12, POLE_HEIGHT), position: [0, POLE_HEIGHT / 2, 0], color: '#6b4f2a' },
+    // Crossarm
+    { geometry: new THREE.BoxGeometry(1, 0.08, 0.08), position: [0, POLE_HEIGHT - 0.2, 0], color: '#6b4f2a' }
+  ]
+};
+
+// Mining rigs by tier. Every model has one glow part, the screen coloured per rig by status.
+const RIG_MODELS: MeshPart[][] = [
+  // CPU: a plain tower
+  [
+    { geometry: new THREE.BoxGeometry(0.8, 1, 0.8), position: [0, 0.5, 0], color: '#222' },
+    { geometry: new THREE.PlaneGeometry(0.6, 0.4), position: [0, 0.7, 0.41], glow: true },
+    // Vents
+    { geometry: new THREE.PlaneGeometry(0.6, 0.2), position: [0, 0.2, 0.41], color: '#111' }
+  ],
+  // GPU: open frame with a row of cards on top
+  [
+    { geometry: new THREE.BoxGeometry(1.2, 0.6, 0.9), position: [0, 0.3, 0], color: '#2a2a2a' },
+    { geometry: new THREE.PlaneGeometry(0.8, 0.3), position: [0, 0.35, 0.46], glow: true },
+    { geometry: new THREE.BoxGeometry(0.08, 0.5, 0.7), position: [-0.35, 0.85, 0], color: '#16a34a' },
+    { geometry: new THREE.BoxGeometry(0.08, 0.5, 0.7), position: [0, 0.85, 0], color: '#16a34a' },
+    { geometry: new THREE.BoxGeometry(0.08, 0.5, 0.7), position: [0.35, 0.85, 0], color: '#16a34a' }
+  ],
+  // ASIC: a tall rack of hashing boards
+  [
+    { geometry: new THREE.BoxGeometry(1, 1.8, 0.9), position: [0, 0.9, 0], color: '#3f3f46' },
+    { geometry: new THREE.PlaneGeometry(0.7, 0.25), position: [0, 1.5, 0.46], glow: true },
+    { geometry: new THREE.PlaneGeometry(0.8, 0.15), position: [0, 1.1, 0.46], color: '#ca8a04' },
+    { geometry: new THREE.PlaneGeometry(0.8, 0.15), position: [0, 0.75, 0.46], color: '#ca8a04' },
+    { geometry: new THREE.PlaneGeometry(0.8, 0.15), position: [0, 0.4, 0.46], color: '#ca8a04' }
+  ]
+];
+
+// Batches are keyed by model: one per structure type, and one per tier for rigs
+const modelKey = (s: Structure): string => s.type === ItemType.MINING_RIG ? `${s.type}:${RIG_TIERS.indexOf(rigTier(s))}` : s.type;
+
+const MODELS: Record<string, MeshPart[]> = {
+  ...(STRUCTURE_MODELS as Record<string, MeshPart[]>),
+  ...Object.fromEntries(RIG_MODELS.map((parts, i) => [`${ItemType.MINING_RIG}:${i}`, parts]))
+};
+
+// Where cables attach on each grid member
+const CABLE_HEIGHT: Partial<Record<ItemType, number>> = {
+  [ItemType.POWER_POLE]: POLE_HEIGHT - 0.2,
+  [ItemType.COAL_GENERATOR]: 1.2,
+  [ItemType.SOLAR_PANEL]: 1,
+  [ItemType.MINING_RIG]: 1
+};
+
+// Pool of screen light on the ground around a rig, shown after dark
+const RIG_HALO: MeshPart[] = [
+  { geometry: new THREE.CircleGeometry(2.5, 24), position: [0, 0.05, 0], rotation: [-Math.PI / 2, 0, 0], halo: true }
+];
+const HALO_OPACITY = 0.35;
+
+const modelFor = (node: ResourceNodeData): ResourceModel => {
+  if (node.type === 'LOOSE_ITEM') return ITEMS[node.drop].mesh;
+  if (node.type === 'TREE' || node.type === 'JUNK') return node.type;
+  return 'ROCK';
+};
+
+// Dropped items lie at a random angle, seeded by id so they don't spin on every update
+const looseRotation = (node: ResourceNodeData): [number, number, number] => {
+  const rng = createRng(node.id);
+  const angle = rng() * Math.PI * 2;
+  const mesh = ITEMS[node.drop].mesh;
+  if (mesh === 'log') return [Math.PI / 2, angle, 0]; // Lie flat
+  if (mesh === 'rock') return [rng(), rng(), rng()];
+  return [0, angle, 0];
+};
+
+// --- Batch ---
+const INITIAL_CAPACITY = 64;
+const HIT_PUNCH_TIME = 0.1; // s a node stays shrunk after being hit
+const HIT_PUNCH_SCALE = 0.8;
+const HIGHLIGHT = new THREE.Color('#ffffff');
+const BLINK_PERIOD = 0.5; // s
+
+const partMatrix = (part: MeshPart) => new THREE.Matrix4().compose(
+  new THREE.Vector3(...(part.position ?? [0, 0, 0])),
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(...(part.rotation ?? [0, 0, 0]))),
+  new THREE.Vector3(1, 1, 1)
+);
+
+interface BatchProps {
+  parts: MeshPart[];
+  instances: Instance[];
+  pickType: PickType;
+  highlightId?: string | null;
+  punches?: Map<string, number>; // id -> clock time of the last hit
+  onHover?: (id: string | null) => void;
+}
+
+// All instances of one model: one InstancedMesh per part, grown in powers of two
+const Batch: React.FC<BatchProps> = ({ parts, instances, pickType, highlightId, punches, onHover }) => {
+  const meshes = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const locals = useMemo(() => parts.map(partMatrix), [parts]);
+  const capacity = Math.max(INITIAL_CAPACITY, 2 ** Math.ceil(Math.log2(instances.length || 1)));
+  const ids = useMemo(() => instances.map(i => i.id), [instances]);
+  const indexOf = useMemo(() => new Map(ids.map((id, i) => [id, i])), [ids]);
+
+  const scratch = useMemo(() => ({
+    anchor: new THREE.Matrix4(),
+    matrix: new THREE.Matrix4(),
+    quaternion: new THREE.Quaternion(),
+    euler: new THREE.Euler(),
+    position: new THREE.Vector3(),
+    scale: new THREE.Vector3(),
+    color: new THREE.Color()
+  }), []);
+
+  const writeMatrix = (i: number, scale: number) => {
+    const { position, rotation } = instances[i];
+    scratch.anchor.compose(
+      scratch.position.set(...position),
+      scratch.quaternion.setFromEuler(scratch.euler.set(...rotation)),
+      scratch.scale.setScalar(scale)
+    );
+    meshes.current.forEach((mesh, p) => {
+      mesh?.setMatrixAt(i, scratch.matrix.multiplyMatrices(scratch.anchor, locals[p]));
+    });
+  };
+
+  // Blinking instances share one beat, kept off React so it doesn't rebuild the batches
+  const blinkOn = useRef(true);
+  const blinks = useMemo(() => instances.some(i => i.dim), [instances]);
+
+  const writeColors = () => {
+    meshes.current.forEach((mesh, p) => {
+      if (!mesh || parts[p].color) return;
+      instances.forEach((instance, i) => {
+        const color = blinkOn.current ? instance.color : instance.dim ?? instance.color;
+        mesh.setColorAt(i, instance.id === highlightId ? HIGHLIGHT : scratch.color.set(color));
+      });
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+  };
+
+  useLayoutEffect(() => {
+    instances.forEach((_, i) => writeMatrix(i, 1));
+    meshes.current.forEach(mesh => {
+      if (!mesh) return;
+      mesh.count = instances.length;
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    });
+    writeColors();
+  }, [instances, highlightId, capacity]);
+
+  useFrame((state) => {
+    if (!blinks) return;
+    const on = Math.floor(state.clock.elapsedTime / BLINK_PERIOD) % 2 === 0;
+    if (on === blinkOn.current) return;
+    blinkOn.current = on;
+    writeColors();
+  });
+
+  // Shrink freshly hit instances for a moment
+  useFrame((state) => {
+    if (!punches || punches.size === 0) return;
+    const now = state.clock.elapsedTime;
+    let changed = false;
+    punches.forEach((at, id) => {
+      const i = indexOf.get(id);
+      if (i === undefined) return;
+      const active = now - at < HIT_PUNCH_TIME;
+      writeMatrix(i, active ? HIT_PUNCH_SCALE : 1);
+      if (!active) punches.delete(id);
+      changed = true;
+    });
+    if (changed) meshes.current.forEach(mesh => { if (mesh) mesh.instanceMatrix.needsUpdate = true; });
+  });
+
+  const hover = onHover && {
+    onPointerMove: (e: ThreeEvent<PointerEvent>) => onHover(e.instanceId !== undefined ? ids[e.instanceId] : null),
+    onPointerOut: () => onHover(null)
+  };
+
+  return (
+    <>
+      {parts.map((part, p) => (
+        <instancedMesh
+          key={`${p}-${capacity}`}
+          ref={(mesh) => { meshes.current[p] = mesh; }}
+          args={[part.geometry, undefined, capacity]}
+          userData={{ type: pickType, ids }}
+          castShadow={!part.glow && !part.halo}
+          receiveShadow
+          frustumCulled={false}
+          {...(part.halo ? { raycast: () => null } : hover)}
+        >
+          {part.halo
+            ? <meshBasicMaterial transparent opacity={HALO_OPACITY} blending={THREE.AdditiveBlending} depthWrite={false} toneMapped={false} />
+            : part.glow
+              ? <meshBasicMaterial toneMapped={false} />
+              : <meshStandardMaterial color={part.color ?? '#ffffff'} side={part.side ?? THREE.FrontSide} />}
+        </instancedMesh>
+      ))}
+    </>
+  );
+};
+
+// Clock time of the last hit per id, for anything whose health just dropped without running out
+const useHitPunches = (items: { id: string; health: number }[]): Map<string, number> => {
+  const punches = useRef(new Map<string, number>()).current;
+  const prevHealth = useRef(new Map<string, number>());
+  const clock = useThree(state => state.clock);
+
+  useEffect(() => {
+    const next = new Map<string, number>();
+    items.forEach(item => {
+      const before = prevHealth.current.get(item.id);
+      if (before !== undefined && item.health < before && item.health > 0) {
+        punches.set(item.id, clock.elapsedTime);
+      }
+      next.set(item.id, item.health);
+    });
+    prevHealth.current = next;
+  }, [items, punches, clock]);
+
+  return punches;
+};
+
+// --- Resources ---
+// Remaining yield of multi-unit nodes such as ore veins, appended to the health readout
+const unitsLeft = (node: ResourceNodeData): string => {
+  if (node.type === 'LOOSE_ITEM' || NODE_DATA[node.type].yield <= 1) return '';
+  return ` · ${node.yieldLeft ?? NODE_DATA[node.type].yield} left`;
+};
+
+export const ResourceInstances: React.FC<{ resources: ResourceNodeData[] }> = ({ resources }) => {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // Watch health for the hit animation
+  const punches = useHitPunches(resources);
+
+  const batches = useMemo(() => {
+    const grouped = {} as Record<ResourceModel, Instance[]>;
+    (Object.keys(RESOURCE_MODELS) as ResourceModel[]).forEach(model => { grouped[model] = []; });
+    resources.forEach(node => {
+      if (node.health <= 0) return;
+      const loose = node.type === 'LOOSE_ITEM';
+      const model = modelFor(node);
+      const [x, y, z] = node.position;
+      grouped[model].push({
+        id: node.id,
+        position: [x, y + RESOURCE_LIFT[model], z],
+        rotation: loose ? looseRotation(node) : [0, 0, 0],
+        color: loose ? ITEMS[node.drop].color : node.color
+      });
+    });
+    return grouped;
+  }, [resources]);
+
+  const hovered = hoveredId ? resources.find(r => r.id === hoveredId && r.health > 0) : undefined;
+
+  return (
+    <group>
+      {(Object.keys(RESOURCE_MODELS) as ResourceModel[]).map(model => (
+        <Batch
+          key={model}
+          parts={RESOURCE_MODELS[model]}
+          instances={batches[model]}
+          pickType="RESOURCE"
+          highlightId={hoveredId}
+          punches={punches}
+          onHover={setHoveredId}
+        />
+      ))}
+
+      {hovered && (
+        <group position={hovered.position}>
+          {/* Health Bar for non-instant items */}
+          {hovered.maxHealth > 1 && (
+            <Text position={[0, hovered.type === 'TREE' ? 4.5 : 1.85, 0]} fontSize={0.4} color="white" anchorX="center" anchorY="middle">
+              {Math.ceil((hovered.health / hovered.maxHealth) * 100)}%{unitsLeft(hovered)}
+            </Text>
+          )}
+
+          {/* Pile size for dropped stacks */}
+          {hovered.type === 'LOOSE_ITEM' && (
+            <Text position={[0, 0.8, 0]} fontSize={0.25} color="white" anchorX="center" anchorY="middle">
+              {hovered.amount && hovered.amount > 1 ? `${hovered.amount}x ` : ''}{ITEMS[hovered.drop].name}
+            </Text>
+          )}
+        </group>
+      )}
+    </group>
+  );
+};
+
+// --- Structures ---
+type Colors = Pick<Instance, 'color' | 'dim'>;
+
+// Mining rig lights: Player green, Bot purple, amber when running hot, all blinking while they
+// work; red when idle or tripped, off without power
+const rigScreenColors = (structure: Structure, isMining: boolean, powered: boolean): Colors => {
+  if (!powered) return { color: '#000000' };
+  if (!isMining) return { color: '#991111' };
+  if ((structure.temperature ?? 0) > THROTTLE_TEMP) return { color: '#ffaa00', dim: '#4d3300' };
+  if (structure.ownerId) return { color: '#a855f7', dim: '#3b0764' };
+  return { color: '#00ff88', dim: '#003311' };
+};
+
+export const StructureInstances: React.FC<{ structures: Structure[] }> = ({ structures }) => {
+  const { timeOfDay, power, activeRigs } = useGame();
+  const darkness = 1 - daylight(timeOfDay);
+  const punches = useHitPunches(structures);
+
+  // Per-instance colour of the parts without a fixed one: rig screens and generator fireboxes
+  const structureColors = (s: Structure): Colors => {
+    if (s.type === ItemType.MINING_RIG) return rigScreenColors(s, activeRigs.has(s.id), isPowered(power, s));
+    if (s.type === ItemType.COAL_GENERATOR) return { color: hasFuel(s) ? '#ff7a1a' : '#1a0d00' };
+    return { color: '#ffffff' };
+  };
+
+  const batches = useMemo(() => {
+    const grouped: Record<string, Instance[]> = {};
+    structures.forEach(s => {
+      const key = modelKey(s);
+      if (!MODELS[key]) return;
+      (grouped[key] ??= []).push({
+        id: s.id,
+        position: s.position,
+        rotation: [0, s.rotation, 0],
+        ...structureColors(s)
+      });
+    });
+    return grouped;
+  }, [structures, activeRigs, power]);
+
+  // After dark every powered rig lights up the ground around it in its screen colour
+  const halos = useMemo(() => {
+    if (darkness <= 0) return [];
+    const scratch = new THREE.Color();
+    const shade = (color: string) => `#${scratch.set(color).multiplyScalar(darkness).getHexString()}`;
+    return structures
+      .filter(s => s.type === ItemType.MINING_RIG && isPowered(power, s))
+      .map(s => {
+        const { color, dim } = structureColors(s);
+        return {
+          id: s.id,
+          position: s.position,
+          rotation: [0, 0, 0] as [number, number, number],
+          color: shade(color),
+          dim: dim && shade(dim)
+        };
+      });
+  }, [structures, power, activeRigs, darkness]);
+
+  return (
+    <group>
+      {Object.keys(MODELS).map(key => (
+        <Batch key={key} parts={MODELS[key]} instances={batches[key] ?? []} pickType="STRUCTURE" punches={punches} />
+      ))}
+      <StructureHealthBars structures={structures} />
+      {halos.length > 0 && <Batch parts={RIG_HALO} instances={halos} pickType="STRUCTURE" />}
+      <PowerCables links={power.links} />
+    </group>
+  );
+};
+
+// Where a damaged structure's health bar floats above its anchor
+const HEALTH_BAR_HEIGHT: Partial<Record<ItemType, number>> = {
+  [ItemType.FOUNDATION]: 0.6,
+  [ItemType.WALL]: 2.8,
+  [ItemType.ROOF]: 2.4,
+  [ItemType.POWER_POLE]: POLE_HEIGHT + 0.3
+};
+
+// Bars over damaged structures only, like the ones over hurt bots
+const StructureHealthBars: React.FC<{ structures: Structure[] }> = ({ structures }) => (
+  <>
+    {structures.filter(isDamaged).map(s => {
+      const share = Math.max(0, s.health / s.maxHealth);
+      return (
+        <Billboard key={s.id} position={[s.position[0], s.position[1] + (HEALTH_BAR_HEIGHT[s.type] ?? 2), s.position[2]]}>
+          <mesh raycast={() => null}>
+            <planeGeometry args={[1, 0.1]} />
+            <meshBasicMaterial color="#222222" />
+          </mesh>
+          <mesh position={[-0.5 + share * 0.5, 0, 0.001]} raycast={() => null}>
+            <planeGeometry args={[share, 0.1]} />
+            <meshBasicMaterial color={share > 0.5 ? '#22c55e' : share > 0.25 ? '#f59e0b' : '#ef4444'} />
+          </mesh>
+        </Billboard>
+      );
+    })}
+  </>
+);
+
+// Straight cables between linked grid members, one draw call for all of them
+const PowerCables: React.FC<{ links: [Structure, Structure][] }> = ({ links }) => {
+  const geometry = useMemo(() => {
+    const points = links.flatMap(([a, b]) => [a, b].map(s =>
+      new THREE.Vector3(s.position[0], s.position[1] + (CABLE_HEIGHT[s.type] ?? 1), s.position[2])));
+    return new THREE.BufferGeometry().setFromPoints(points);
+  }, [links]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  if (links.length === 0) return null;
+  return (
+    <lineSegments geometry={geometry} raycast={() => null}>
+      <lineBasicMaterial color="#111111" />
+    </lineSegments>
+  );
+};
+
+const SELECTION_SCALE = 1.04; // Blueprint picks are drawn just over the real structure
+
+// Translucent preview of a structure while placing it, green where it can go and red where it
+// can't, with the reach of coolers marked out. Also marks, in blue, structures picked for a
+// blueprint. Never takes raycasts, so aiming goes through it.
+export const GhostStructure: React.FC<{ type: ItemType; position: [number, number, number]; rotation: number; valid: boolean; selected?: boolean }> = ({ type, position, rotation, valid, selected }) => {
+  const parts = type === ItemType.MINING_RIG ? RIG_MODELS[0] : STRUCTURE_MODELS[type];
+  if (!parts) return null;
+  const coolingRange = selected ? undefined : COOLER_DATA[type]?.range;
+  const color = selected ? '#60a5fa' : valid ? '#88ff88' : '#ff5555';
+  return (
+    <group position={position} rotation={[0, rotation, 0]} scale={selected ? SELECTION_SCALE : 1}>
+      {coolingRange && (
+        <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+          <ringGeometry args={[coolingRange - 0.1, coolingRange, 48]} />
+          <meshBasicMaterial color="#38bdf8" transparent opacity={0.6} />
+        </mesh>
+      )}
+      {parts.map((part, p) => (
+        <mesh key={p} geometry={part.geometry} position={part.position} rotation={part.rotation} raycast={() => null}>
+          <meshStandardMaterial color={color} transparent opacity={0.5} side={part.side ?? THREE.FrontSide} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { useGame } from '../../context/GameContext';
+import { blueprintCost, missingItems } from '../../engine/blueprints';
+import { itemIcon, itemName } from '../../engine/registry';
+import { ClipboardPaste, Copy, DraftingCompass, Save, Stamp, Trash2, X } from 'lucide-react';
+
+// Saved multi-piece builds: capture the structures picked with [B], stamp them down again, and
+// share them as JSON
+export const BlueprintPanel: React.FC<{ onPlace: (e: React.MouseEvent, id: string) => void }> = ({ onPlace }) => {
+  const { inventory, blueprints, blueprintSelection, saveBlueprint, clearBlueprintSelection, deleteBlueprint, exportBlueprint, importBlueprint } = useGame();
+  const [name, setName] = useState('');
+  const [json, setJson] = useState('');
+
+  const handleSave = () => {
+    saveBlueprint(name);
+    setName('');
+  };
+
+  const handleExport = (id: string) => {
+    const text = exportBlueprint(id);
+    if (!text) return;
+    setJson(text);
+    navigator.clipboard?.writeText(text).catch(() => {});
+  };
+
+  const handleImport = () => {
+    if (importBlueprint(json)) setJson('');
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700 space-y-2">
+      <h3 className="text-gray-400 text-xs uppercase font-bold flex items-center gap-2">
+        <DraftingCompass size={14} /> Blueprints
+      </h3>
+
+      {/* Capture */}
+      <div className="bg-gray-800 p-2 rounded border border-gray-700">
+        <div className="flex justify-between items-center text-[10px] text-gray-500 mb-1">
+          <span>{blueprintSelection.length > 0 ? `${blueprintSelection.length} pieces selected` : 'Press [B] on structures to select them'}</span>
+          {blueprintSelection.length > 0 && (
+            <button onClick={(e) => { e.stopPropagation(); clearBlueprintSelection(); }} className="text-gray-400 hover:text-white" title="Clear Selection">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+        <div className="flex gap-1">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Blueprint name"
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={(e) => { e.stopPropagation(); handleSave(); }}
+            disabled={blueprintSelection.length === 0}
+            className="p-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded text-gray-300 hover:text-white transition"
+            title="Save Blueprint"
+          >
+            <Save size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Library */}
+      {blueprints.map(bp => {
+        const cost = blueprintCost(bp.pieces);
+        const missing = missingItems(cost, inventory);
+        return (
+          <div key={bp.id} className="bg-gray-800 p-2 rounded border border-gray-700">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="text-sm text-gray-200 truncate">{bp.name}</div>
+                <div className="text-[10px] text-gray-500">{bp.pieces.length} pieces</div>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={(e) => onPlace(e, bp.id)}
+                  disabled={missing.length > 0}
+                  className="p-1 bg-amber-700 hover:bg-amber-600 disabled:bg-gray-700 disabled:opacity-40 rounded text-white transition"
+                  title="Place"
+                >
+                  <Stamp size={14} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleExport(bp.id); }}
+                  className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 hover:text-white transition"
+                  title="Export JSON"
+                >
+                  <Copy size={14} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); deleteBlueprint(bp.id); }}
+                  className="p-1 bg-gray-700 hover:bg-red-900/50 rounded text-gray-300 hover:text-red-400 transition"
+                  title="Delete"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-2 mt-1 text-[10px] font-mono">
+              {cost.map(stack => {
+                const have = (inventory[stack.item] as number) || 0;
+                return (
+                  <span key={stack.item} className={have >= stack.count ? 'text-green-400' : 'text-red-400'} title={itemName(stack.item)}>
+                    {itemIcon(stack.item)} {have}/{stack.count}
+                  </span>
+                );
+              })}
+            </div>
+            {missing.length > 0 && (
+              <div className="text-[10px] text-red-400 mt-1">
+                Missing {missing.map(m => `${m.count}x ${itemName(m.item)}`).join(', ')}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Import / Export */}
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        placeholder="Paste blueprint JSON to import"
+        rows={3}
+        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-blue-500 resize-none"
+      />
+      <button
+        onClick={(e) => { e.stopPropagation(); handleImport(); }}
+        disabled={json.trim().length === 0}
+        className="w-full py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white text-xs rounded font-bold flex items-center justify-center gap-2 transition"
+      >
+        <ClipboardPaste size={14} /> Import Blueprint
+      </button>
+    </div>
+  );
+};
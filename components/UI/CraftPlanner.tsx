@@ -0,0 +1,79 @@
+
+import React, { useState } from 'react';
+import { useGame } from '../../context/GameContext';
+import { ItemType } from '../../types';
+import { planCraft } from '../../engine/crafting';
+import { RECIPES, itemIcon, itemName } from '../../engine/registry';
+import { ListTree, Minus, Plus } from 'lucide-react';
+
+// "Craft everything needed for X": resolves the recipe tree and queues it as a chain
+export const CraftPlanner = () => {
+  const { inventory, craftChain } = useGame();
+  const [target, setTarget] = useState<ItemType>(ItemType.MINING_RIG);
+  const [quantity, setQuantity] = useState(1);
+
+  const plan = planCraft(target, quantity, inventory);
+  const ready = plan.missing.length === 0;
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ListTree size={14} className="text-blue-400" />
+        <span className="text-xs font-bold uppercase text-gray-400">Planner</span>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value as ItemType)}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+        >
+          {RECIPES.map(recipe => (
+            <option key={recipe.output} value={recipe.output}>{itemIcon(recipe.output)} {itemName(recipe.output)}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setQuantity(q => Math.max(1, q - 1))}
+          className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 transition"
+        >
+          <Minus size={12} />
+        </button>
+        <span className="font-mono text-sm text-white w-6 text-center">{quantity}</span>
+        <button
+          onClick={() => setQuantity(q => q + 1)}
+          className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 transition"
+        >
+          <Plus size={12} />
+        </button>
+      </div>
+
+      {/* Build Order */}
+      <div className="flex flex-wrap gap-1 mb-2">
+        {plan.steps.map((step, i) => (
+          <span key={step.recipe.output} className="text-[10px] bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-gray-300">
+            {i + 1}. {itemIcon(step.recipe.output)} {itemName(step.recipe.output)} x{step.batches * step.recipe.count}
+          </span>
+        ))}
+      </div>
+
+      {/* Missing Raw Materials */}
+      {ready ? (
+        <div className="text-xs text-green-400 mb-3">All materials in stock.</div>
+      ) : (
+        <div className="space-y-1 mb-3">
+          {plan.missing.map(m => (
+            <div key={m.item} className="flex justify-between text-xs">
+              <span className="text-gray-400">{itemIcon(m.item)} {itemName(m.item)}</span>
+              <span className="text-red-400">-{m.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={(e) => { e.stopPropagation(); craftChain(target, quantity); }}
+        disabled={!ready}
+        className="w-full py-1.5 bg-blue-700 hover:bg-blue-600 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs rounded font-bold uppercase tracking-wide transition"
+      >
+        Queue Full Chain ({plan.steps.length} steps)
+      </button>
+    </div>
+  );
+};
@@ -1,8 +1,17 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useGame } from '../../context/GameContext';
-import { ITEM_ICONS, RECIPES, ItemType, GameEvent, MAX_POT, OWNER_FEE } from '../../types';
-import { Terminal, Activity, Coins, Cpu, Hammer, X, Pickaxe, CloudLightning, Home, Tv, DollarSign, Globe, MousePointer2, RotateCw, ArrowDownToLine, Briefcase } from 'lucide-react';
+import { ItemType, GameEvent, MAX_POT, OWNER_FEE } from '../../types';
+import { slotLabel } from '../../services/saveService';
+import { randomSeed } from '../../utils/random';
+import { jobProgress, maxCraftable } from '../../engine/crafting';
+import { DAY_LENGTHS, formatTimeOfDay, isNight } from '../../engine/daycycle';
+import { THROTTLE_TEMP } from '../../engine/thermal';
+import { RECIPES, itemIcon, itemName, itemsInCategory } from '../../engine/registry';
+import { CraftPlanner } from './CraftPlanner';
+import { BlueprintPanel } from './BlueprintPanel';
+import { blueprintCost, missingItems } from '../../engine/blueprints';
+import { Terminal, Activity, Coins, Cpu, Hammer, X, Pickaxe, CloudLightning, Home, Tv, DollarSign, Globe, MousePointer2, RotateCw, ArrowDownToLine, Briefcase, Save, FolderOpen, FilePlus, Dices, Pause, Play, Heart, Skull, MapPin, Wind, Sun, Moon, Zap } from 'lucide-react';
 
 const StatCard = ({ icon: Icon, label, value, subValue, alert, progress }: any) => (
   <div className={`backdrop-blur border p-3 rounded-lg flex items-center gap-3 min-w-[140px] transition-colors ${alert ? 'bg-red-900/50 border-red-500' : 'bg-gray-900/80 border-gray-700'}`}>
@@ -28,15 +37,45 @@ const StatCard = ({ icon: Icon, label, value, subValue, alert, progress }: any)
 
 export const Overlay = () => {
   const { 
-    inventory, money, globalPot, ownerBalance, miningRigs, miningRate, 
+    inventory, money, globalPot, ownerBalance, miningRigs, miningRate, poweredRigs, power, overheatedRigs, hottestRig, shelteredRigs, 
     marketHeadline, marketModifier, logs,
-    isMenuOpen, toggleMenu, craft, startBuildMode, buildMode,
-    activeEvent, cashOut, dropItem
+    isMenuOpen, toggleMenu, craft, cancelCraft, craftQueue, startBuildMode, startBlueprintMode, buildMode,
+    activeEvent, cashOut, dropItem, paused, timeScale, togglePause, setTimeScale,
+    timeOfDay, dayLength, setDayLength,
+    activeSlot, saveSlots, saveGame, loadGame, newGame, worldSeed,
+    playerHealth, playerMaxHealth, playerBreath, playerMaxBreath, spawnPoints, respawnPlayer
   } = useGame();
 
+  const isDead = playerHealth <= 0;
+  const healthPercentage = playerHealth / playerMaxHealth;
+  const breathPercentage = playerBreath / playerMaxBreath;
+
+  // Free the cursor so a spawn point can be picked
+  useEffect(() => {
+    if (isDead && document.pointerLockElement) document.exitPointerLock();
+  }, [isDead]);
+
+  // New Game screen state (slot being overwritten + seed being typed)
+  const [newGameSlot, setNewGameSlot] = useState<string | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const newGameSlotInfo = saveSlots.find(s => s.slot === newGameSlot);
+
+  const openNewGame = (slot: string) => {
+    setNewGameSlot(slot);
+    setSeedInput(randomSeed());
+  };
+
+  const confirmNewGame = () => {
+    if (!newGameSlot) return;
+    newGame(newGameSlot, seedInput);
+    setNewGameSlot(null);
+  };
+
   const potPercentage = globalPot / MAX_POT;
+  const exposedRigs = miningRigs - shelteredRigs;
+  const blueprintMissing = buildMode.blueprint ? missingItems(blueprintCost(buildMode.blueprint.pieces), inventory) : [];
 
-  const handleBuildClick = (e: React.MouseEvent, type: ItemType) => {
+  const handleBuildClick = (e: React.MouseEvent, start: () => void) => {
     e.preventDefault();
     e.stopPropagation();
     
@@ -52,7 +91,7 @@ export const Overlay = () => {
     // If we unmount the menu (and this button) immediately in the same tick,
     // the browser sometimes cancels the pointer lock request because the active element vanished.
     setTimeout(() => {
-        startBuildMode(type);
+        start();
     }, 50);
   };
 
@@ -80,6 +119,120 @@ export const Overlay = () => {
         </div>
       )}
 
+      {/* NEW GAME SCREEN */}
+      {newGameSlot && (
+        <div className="absolute inset-0 bg-black/70 z-[60] flex items-center justify-center pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 w-[420px] shadow-2xl space-y-4">
+            <h2 className="text-xl font-bold flex items-center gap-2 text-white">
+              <FilePlus size={20} className="text-blue-400" /> New World • {slotLabel(newGameSlot)}
+            </h2>
+            <div>
+              <label className="text-gray-400 text-xs uppercase font-bold">World Seed</label>
+              <div className="flex gap-2 mt-1">
+                <input 
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') confirmNewGame(); }}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1.5 font-mono text-sm text-white focus:outline-none focus:border-blue-500"
+                  placeholder="Leave empty for random"
+                  autoFocus
+                />
+                <button 
+                  onClick={() => setSeedInput(randomSeed())}
+                  className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 hover:text-white transition"
+                  title="Random Seed"
+                >
+                  <Dices size={16} />
+                </button>
+              </div>
+              <p className="text-[10px] text-gray-500 mt-1">Same seed = same nodes, bot spawns and respawns. Share via ?seed= in the URL.</p>
+            </div>
+            {newGameSlotInfo?.savedAt && (
+              <p className="text-xs text-red-400">This will overwrite the world saved in {slotLabel(newGameSlot)}.</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button 
+                onClick={() => setNewGameSlot(null)}
+                className="px-4 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded font-bold transition"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={confirmNewGame}
+                className="px-4 py-1.5 bg-blue-700 hover:bg-blue-600 text-white text-xs rounded font-bold uppercase tracking-wide transition"
+              >
+                Generate World
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* DEATH SCREEN */}
+      {isDead && (
+        <div className="absolute inset-0 bg-red-950/70 z-[90] flex items-center justify-center pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+          <div className="bg-gray-900 border border-red-700 rounded-xl p-6 w-[420px] shadow-2xl space-y-4 text-center">
+            <Skull size={48} className="mx-auto text-red-500" />
+            <h2 className="text-2xl font-black uppercase text-white">Connection Lost</h2>
+            <p className="text-xs text-gray-400">Part of your inventory was left where you fell. Choose where to reconnect.</p>
+            <div className="space-y-2">
+              {spawnPoints.map(point => (
+                <button 
+                  key={point.id}
+                  onClick={() => respawnPlayer(point.id)}
+                  className="w-full py-2 bg-gray-800 hover:bg-gray-700 border border-gray-600 text-white text-xs rounded font-bold flex items-center justify-center gap-2 transition"
+                >
+                  <MapPin size={14} className="text-blue-400" /> {point.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Health Bar */}
+      {!isDead && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-64 pointer-events-none">
+          {breathPercentage < 1 && (
+            <div className="mb-2">
+              <div className="flex items-center gap-2 text-xs font-bold uppercase text-gray-300 mb-1">
+                <Wind size={14} className={breathPercentage <= 0 ? "text-red-500 animate-pulse" : "text-cyan-400"} />
+                Breath
+                <span className="ml-auto font-mono">{Math.ceil(playerBreath)}s</span>
+              </div>
+              <div className="w-full h-2 bg-gray-800/80 rounded overflow-hidden border border-gray-700">
+                <div
+                  className="h-full bg-cyan-400 transition-all duration-300"
+                  style={{ width: `${breathPercentage * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-xs font-bold uppercase text-gray-300 mb-1">
+            <Heart size={14} className={healthPercentage < 0.3 ? "text-red-500 animate-pulse" : "text-red-400"} />
+            Health
+            <span className="ml-auto font-mono">{Math.ceil(playerHealth)}/{playerMaxHealth}</span>
+          </div>
+          <div className="w-full h-2 bg-gray-800/80 rounded overflow-hidden border border-gray-700">
+            <div 
+              className={`h-full transition-all duration-300 ${healthPercentage < 0.3 ? 'bg-red-600' : 'bg-green-500'}`}
+              style={{ width: `${healthPercentage * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      {/* Pause Banner */}
+      {paused && (
+        <div className="absolute top-1/3 left-1/2 -translate-x-1/2 bg-gray-900/90 border border-gray-600 text-white px-8 py-3 rounded-lg shadow-lg flex items-center gap-3 pointer-events-none">
+          <Pause size={24} className="text-yellow-400" />
+          <div className="text-center">
+            <div className="text-lg font-black uppercase tracking-widest">Paused</div>
+            <div className="text-xs text-gray-400">Press [P] to Resume</div>
+          </div>
+        </div>
+      )}
+
       {/* Event Banner */}
       {activeEvent === GameEvent.ACID_RAIN && (
         <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-red-500/90 text-white px-6 py-2 rounded-b shadow-[0_0_20px_rgba(220,38,38,0.5)] font-bold flex items-center gap-3 animate-pulse">
@@ -87,6 +240,7 @@ export const Overlay = () => {
           <div className="text-center">
             <div className="text-xs uppercase tracking-widest opacity-80">Environment Warning</div>
             <div className="text-lg uppercase">Acid Rain Storm</div>
+            <div className="text-[10px] opacity-80">Rigs without a roof are offline and corroding</div>
           </div>
         </div>
       )}
@@ -96,7 +250,14 @@ export const Overlay = () => {
         <div className="absolute top-24 left-1/2 -translate-x-1/2 bg-blue-900/80 border border-blue-500 text-white px-8 py-4 rounded-lg shadow-lg flex items-center gap-6 pointer-events-none">
            <div className="text-center">
              <div className="text-xs text-blue-300 font-bold uppercase">Build Mode</div>
-             <div className="text-2xl font-black">{buildMode.type}</div>
+             <div className="text-2xl font-black">{buildMode.blueprint ? buildMode.blueprint.name : buildMode.type && itemName(buildMode.type)}</div>
+             {buildMode.blueprint && (
+               <div className={`text-[10px] ${blueprintMissing.length > 0 ? 'text-red-300' : 'text-blue-300'}`}>
+                 {blueprintMissing.length > 0
+                   ? `Missing ${blueprintMissing.map(m => `${m.count}x ${itemName(m.item)}`).join(', ')}`
+                   : `${buildMode.blueprint.pieces.length} pieces`}
+               </div>
+             )}
            </div>
            <div className="h-8 w-px bg-blue-500/50"></div>
            <div className="flex gap-4 text-sm font-mono">
@@ -125,15 +286,34 @@ export const Overlay = () => {
           <StatCard 
             icon={Cpu} 
             label="Network" 
-            value={`${miningRate > 0 ? miningRigs : 0} Rigs`} 
+            value={`${poweredRigs} Rigs`} 
             subValue={
-              activeEvent === GameEvent.ACID_RAIN ? "STORM OFFLINE" : 
+              activeEvent === GameEvent.ACID_RAIN ? `STORM • ${shelteredRigs} SHELTERED / ${exposedRigs} EXPOSED` : 
               potPercentage <= 0 ? "THROTTLED (POT EMPTY)" : 
+              miningRigs > 0 && poweredRigs === 0 ? "NO POWER" :
+              overheatedRigs > 0 ? `${overheatedRigs} OVERHEATED` :
+              hottestRig !== null && hottestRig > THROTTLE_TEMP ? `THROTTLED (${Math.round(hottestRig)}°C)` :
+              hottestRig !== null ? `Operating Normal • ${Math.round(hottestRig)}°C • ${shelteredRigs}/${miningRigs} sheltered` :
               "Operating Normal"
             } 
-            alert={activeEvent === GameEvent.ACID_RAIN || potPercentage <= 0}
+            alert={(activeEvent === GameEvent.ACID_RAIN && exposedRigs > 0) || potPercentage <= 0 || (miningRigs > 0 && poweredRigs === 0) || overheatedRigs > 0}
           />
           
+          <StatCard 
+            icon={isNight(timeOfDay) ? Moon : Sun} 
+            label="Local Time" 
+            value={formatTimeOfDay(timeOfDay)} 
+            subValue={isNight(timeOfDay) ? "Night • Solar panels idle" : "Daylight"} 
+          />
+
+          <StatCard 
+            icon={Zap} 
+            label="Power Grid" 
+            value={`${Math.round(power.demand)}/${Math.round(power.supply)} W`} 
+            subValue={poweredRigs < miningRigs ? `${miningRigs - poweredRigs} RIGS UNPOWERED` : "Demand / Supply"} 
+            alert={poweredRigs < miningRigs}
+          />
+
           {/* Owner Stats (Visualize the 50/50 split and fees) */}
           <StatCard 
             icon={Briefcase} 
@@ -157,7 +337,14 @@ export const Overlay = () => {
             {'>'} {log}
           </div>
         ))}
-        <div className="text-xs text-gray-500 mt-2">Press [E] or [TAB] to Toggle Menu</div>
+        {craftQueue.length > 0 && (
+          <div className="text-xs font-mono bg-black/40 p-1 px-2 rounded text-yellow-300 flex items-center gap-2 mt-1">
+            <Hammer size={12} />
+            {itemName(craftQueue[0].output)} x{craftQueue[0].quantity} • {Math.round(jobProgress(craftQueue[0]) * 100)}%
+            {craftQueue.length > 1 && <span className="text-gray-400">(+{craftQueue.length - 1} queued)</span>}
+          </div>
+        )}
+        <div className="text-xs text-gray-500 mt-2">Press [E] or [TAB] to Toggle Menu • [P] Pause • [F] Load Generator • [U] Upgrade Rig • [R] Repair • [B] Select for Blueprint</div>
       </div>
 
       {/* Modal Menu */}
@@ -176,12 +363,46 @@ export const Overlay = () => {
               <h2 className="text-xl font-bold flex items-center gap-2 text-white">
                 <Pickaxe size={20} className="text-yellow-500"/> Operations Terminal
               </h2>
-              <button 
-                onClick={(e) => { e.stopPropagation(); toggleMenu(); }} 
-                className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"
-              >
-                <X size={20} />
-              </button>
+              <div className="flex items-center gap-3">
+                {/* Game Clock Controls */}
+                <div className="flex items-center gap-1 bg-gray-900 rounded p-1 border border-gray-700">
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); togglePause(); }}
+                    className="p-1 hover:bg-gray-700 rounded text-gray-300 hover:text-white"
+                    title={paused ? "Resume [P]" : "Pause [P]"}
+                  >
+                    {paused ? <Play size={14} /> : <Pause size={14} />}
+                  </button>
+                  {[0.5, 1, 2, 4].map(scale => (
+                    <button 
+                      key={scale}
+                      onClick={(e) => { e.stopPropagation(); setTimeScale(scale); }}
+                      className={`px-2 py-0.5 rounded text-xs font-mono ${timeScale === scale ? 'bg-blue-700 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'}`}
+                    >
+                      {scale}x
+                    </button>
+                  ))}
+                </div>
+                {/* Day/Night Cycle Speed */}
+                <div className="flex items-center gap-1 bg-gray-900 rounded p-1 border border-gray-700" title="Length of a full day">
+                  <Sun size={14} className="text-yellow-400 mx-1" />
+                  {DAY_LENGTHS.map(length => (
+                    <button 
+                      key={length}
+                      onClick={(e) => { e.stopPropagation(); setDayLength(length); }}
+                      className={`px-2 py-0.5 rounded text-xs font-mono ${dayLength === length ? 'bg-blue-700 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'}`}
+                    >
+                      {length / 60}m
+                    </button>
+                  ))}
+                </div>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); toggleMenu(); }} 
+                  className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"
+                >
+                  <X size={20} />
+                </button>
+              </div>
             </div>
 
             {/* Content */}
@@ -212,8 +433,8 @@ export const Overlay = () => {
                     (count as number) > 0 && (
                       <div key={key} className="flex items-center justify-between bg-gray-800 p-2 rounded border border-gray-700">
                         <div className="flex items-center gap-2">
-                          <span className="text-xl">{ITEM_ICONS[key as ItemType] || '📦'}</span>
-                          <span className="text-sm text-gray-200">{key}</span>
+                          <span className="text-xl">{itemIcon(key)}</span>
+                          <span className="text-sm text-gray-200">{itemName(key)}</span>
                         </div>
                         <div className="flex items-center gap-3">
                           <span className="font-mono font-bold text-blue-400">{count as number}</span>
@@ -232,20 +453,66 @@ export const Overlay = () => {
                   {/* Quick Actions */}
                   <div className="space-y-2 mt-4 pt-4 border-t border-gray-700">
                     {/* Dynamic Build Buttons for any structure type in inventory */}
-                    {[ItemType.MINING_RIG, ItemType.FOUNDATION, ItemType.WALL, ItemType.ROOF].map(type => (
+                    {itemsInCategory('structure').map(type => (
                        (inventory[type] as number || 0) > 0 && (
                         <button 
                           key={type}
-                          onClick={(e) => { handleBuildClick(e, type); }}
+                          onClick={(e) => { handleBuildClick(e, () => startBuildMode(type)); }}
                           className="w-full py-2 bg-amber-700 hover:bg-amber-600 text-white rounded font-bold text-xs uppercase tracking-wide flex items-center justify-center gap-2"
                         >
                           {type === ItemType.MINING_RIG ? <Cpu size={14}/> : <Home size={14} />} 
-                          {type === ItemType.MINING_RIG ? 'Place Rig' : `Place ${type}`}
+                          {type === ItemType.MINING_RIG ? 'Place Rig' : `Place ${itemName(type)}`}
                         </button>
                        )
                     ))}
                   </div>
                 </div>
+
+                {/* Save Slots */}
+                <div className="mt-4 pt-4 border-t border-gray-700 space-y-2">
+                  <h3 className="text-gray-400 text-xs uppercase font-bold flex justify-between">
+                    Save Slots
+                    <span className="font-mono normal-case text-gray-500 select-text" title="World Seed">Seed: {worldSeed}</span>
+                  </h3>
+                  {saveSlots.map(info => (
+                    <div key={info.slot} className={`flex items-center justify-between bg-gray-800 p-2 rounded border ${info.slot === activeSlot ? 'border-blue-500' : 'border-gray-700'}`}>
+                      <div>
+                        <div className="text-sm text-gray-200">{slotLabel(info.slot)}</div>
+                        <div className={`text-[10px] ${info.corrupt ? 'text-red-400' : 'text-gray-500'}`}>
+                          {info.corrupt ? 'Corrupt Save' : info.savedAt 
+                            ? `${new Date(info.savedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} • ${info.rigs} Rigs • ${info.seed}`
+                            : 'Empty'}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); saveGame(info.slot); }}
+                          className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 hover:text-white transition"
+                          title="Save"
+                        >
+                          <Save size={14} />
+                        </button>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); loadGame(info.slot); }}
+                          disabled={!info.savedAt}
+                          className="p-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded text-gray-300 hover:text-white transition"
+                          title="Load"
+                        >
+                          <FolderOpen size={14} />
+                        </button>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); openNewGame(info.slot); }}
+                          className="p-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 hover:text-white transition"
+                          title="New World"
+                        >
+                          <FilePlus size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <BlueprintPanel onPlace={(e, id) => handleBuildClick(e, () => startBlueprintMode(id))} />
               </div>
 
               {/* Right: Crafting */}
@@ -253,14 +520,44 @@ export const Overlay = () => {
                 <h3 className="text-gray-400 text-xs uppercase font-bold mb-4 flex items-center gap-2">
                    <Hammer size={14} /> Manufacturing
                 </h3>
+
+                <CraftPlanner />
+
+                {/* Fabrication Queue */}
+                {craftQueue.length > 0 && (
+                  <div className="space-y-2 mb-4">
+                    {craftQueue.map((job, idx) => (
+                      <div key={job.id} className={`bg-gray-800 p-2 rounded border ${idx === 0 ? 'border-yellow-600' : 'border-gray-700'} flex items-center gap-3`}>
+                        <span className="text-xl">{itemIcon(job.output)}</span>
+                        <div className="flex-1">
+                          <div className="flex justify-between text-xs">
+                            <span className="font-bold text-white">{itemName(job.output)} x{job.quantity}</span>
+                            <span className="text-gray-400">{idx === 0 ? `${Math.round(jobProgress(job) * 100)}%` : 'Queued'}</span>
+                          </div>
+                          <div className="w-full h-1 bg-gray-700 rounded mt-1 overflow-hidden">
+                            <div className="h-full bg-yellow-500" style={{ width: `${jobProgress(job) * 100}%` }}></div>
+                          </div>
+                        </div>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); cancelCraft(job.id); }}
+                          className="p-1 hover:bg-red-900/50 rounded text-gray-400 hover:text-red-400 transition"
+                          title="Cancel & Refund"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-3">
                   {RECIPES.map((recipe, idx) => (
                     <div key={idx} className="bg-gray-800 p-3 rounded-lg border border-gray-700 hover:border-gray-500 transition group">
                       <div className="flex justify-between items-start mb-2">
                         <div className="flex items-center gap-2">
-                           <span className="text-2xl">{ITEM_ICONS[recipe.output]}</span>
+                           <span className="text-2xl">{itemIcon(recipe.output)}</span>
                            <div>
-                             <div className="font-bold text-sm text-white">{recipe.output}</div>
+                             <div className="font-bold text-sm text-white">{itemName(recipe.output)}</div>
                              <div className="text-[10px] text-gray-400">x{recipe.count} • {recipe.craftTime}s</div>
                            </div>
                         </div>
@@ -272,7 +569,7 @@ export const Overlay = () => {
                            const hasEnough = ((inventory[input.item] as number) || 0) >= input.count;
                            return (
                              <div key={i} className="flex justify-between text-xs">
-                               <span className="text-gray-400">{input.item}</span>
+                               <span className="text-gray-400">{itemName(input.item)}</span>
                                <span className={hasEnough ? "text-green-400" : "text-red-400"}>
                                  {(inventory[input.item] as number || 0)}/{input.count}
                                </span>
@@ -281,12 +578,26 @@ export const Overlay = () => {
                         })}
                       </div>
 
-                      <button 
-                        onClick={(e) => { e.stopPropagation(); craft(recipe); }}
-                        className="w-full py-1.5 bg-gray-700 group-hover:bg-gray-600 text-white text-xs rounded font-bold transition"
-                      >
-                        Craft
-                      </button>
+                      <div className="flex gap-1">
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); craft(recipe); }}
+                          className="flex-1 py-1.5 bg-gray-700 group-hover:bg-gray-600 text-white text-xs rounded font-bold transition"
+                        >
+                          Craft
+                        </button>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); craft(recipe, 5); }}
+                          className="px-2 py-1.5 bg-gray-700 group-hover:bg-gray-600 text-white text-xs rounded font-bold transition"
+                        >
+                          x5
+                        </button>
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); craft(recipe, Math.max(1, maxCraftable(recipe, inventory))); }}
+                          className="px-2 py-1.5 bg-gray-700 group-hover:bg-gray-600 text-white text-xs rounded font-bold transition"
+                        >
+                          Max
+                        </button>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,35 @@
+import type { BiomeDef, BiomeId } from '../types';
+
+// --- Biome Data ---
+// Ground colours and what grows where. Scatter weights are relative within a biome;
+// ore mostly comes in veins, clustered deposits rolled a couple of times per chunk.
+export const BIOME_DATA: Record<BiomeId, BiomeDef> = {
+  FOREST: {
+    name: 'Forest',
+    ground: ['#3a5a40', '#4a6b38'],
+    resources: { TREE: 65, STONE: 20, COAL: 5, COPPER: 3, METAL: 0, JUNK: 7 },
+    veins: { COAL: 0.15, COPPER: 0.05 },
+    temperature: 22
+  },
+  HIGHLANDS: {
+    name: 'Rocky Highlands',
+    ground: ['#6b6b5e', '#8a8577'],
+    resources: { TREE: 15, STONE: 60, COAL: 5, COPPER: 5, METAL: 10, JUNK: 5 },
+    veins: { METAL: 0.25, COPPER: 0.15, COAL: 0.05 },
+    temperature: 12
+  },
+  WASTELAND: {
+    name: 'Wasteland',
+    ground: ['#7a6a48', '#5e5440'],
+    resources: { TREE: 5, STONE: 30, COAL: 10, COPPER: 5, METAL: 5, JUNK: 45 },
+    veins: { COAL: 0.25, METAL: 0.1 },
+    temperature: 34
+  },
+  SHORELINE: {
+    name: 'Shoreline',
+    ground: ['#c2b280', '#a89a6e'],
+    resources: { TREE: 15, STONE: 30, COAL: 0, COPPER: 5, METAL: 0, JUNK: 50 },
+    veins: { COPPER: 0.15 },
+    temperature: 18
+  }
+};
@@ -0,0 +1,37 @@
+import type { ItemDef } from '../types';
+
+// --- Item Registry Data ---
+// One entry per item. The key is the stable id stored in saves; `name` is only for display.
+export const ITEM_DATA = {
+  // Raw
+  STONE: { name: 'Stone', icon: '🪨', color: '#888888', stackSize: 50, category: 'raw', mesh: 'rock' },
+  METAL_ORE: { name: 'Metal Ore', icon: '⛰️', color: '#64748b', stackSize: 50, category: 'raw', mesh: 'rock' },
+  COPPER_ORE: { name: 'Copper Ore', icon: '🟠', color: '#b87333', stackSize: 50, category: 'raw', mesh: 'rock' },
+  WOOD: { name: 'Wood', icon: '🪵', color: '#5c4033', stackSize: 50, category: 'raw', mesh: 'log' },
+  RESIN: { name: 'Resin', icon: '💧', color: '#eab308', stackSize: 50, category: 'raw', mesh: 'box' },
+  COAL: { name: 'Coal', icon: '⚫', color: '#222222', stackSize: 50, category: 'raw', mesh: 'rock' },
+  SCRAP: { name: 'Scrap', icon: '🔩', color: '#a855f7', stackSize: 50, category: 'raw', mesh: 'box' },
+
+  // Processed
+  SILICON: { name: 'Silicon', icon: '⬛', color: '#52525b', stackSize: 50, category: 'processed', mesh: 'box' },
+  STEEL: { name: 'Steel', icon: '⛓️', color: '#94a3b8', stackSize: 50, category: 'processed', mesh: 'box' },
+  COPPER_WIRE: { name: 'Copper Wire', icon: '➰', color: '#d97706', stackSize: 50, category: 'processed', mesh: 'box' },
+  PLASTIC: { name: 'Plastic', icon: '🥤', color: '#38bdf8', stackSize: 50, category: 'processed', mesh: 'box' },
+
+  // Components
+  CIRCUIT_BOARD: { name: 'Circuit Board', icon: '📟', color: '#15803d', stackSize: 20, category: 'component', mesh: 'box' },
+  GPU: { name: 'Graphics Card', icon: '🎮', color: '#16a34a', stackSize: 10, category: 'component', mesh: 'box' },
+  ASIC_CHIP: { name: 'ASIC Chip', icon: '🔲', color: '#ca8a04', stackSize: 10, category: 'component', mesh: 'box' },
+  FRAME: { name: 'Frame', icon: '🏗️', color: '#78716c', stackSize: 20, category: 'component', mesh: 'box' },
+
+  // Buildings/Final
+  MINING_RIG: { name: 'Mining Rig', icon: '💻', color: '#222222', stackSize: 5, category: 'structure', mesh: 'box' },
+  FOUNDATION: { name: 'Stone Foundation', icon: '⬛', color: '#555555', stackSize: 10, category: 'structure', mesh: 'box' },
+  WALL: { name: 'Wooden Wall', icon: '🧱', color: '#8b5a2b', stackSize: 10, category: 'structure', mesh: 'box' },
+  ROOF: { name: 'Wooden Roof', icon: '⛺', color: '#3e2723', stackSize: 10, category: 'structure', mesh: 'box' },
+  COAL_GENERATOR: { name: 'Coal Generator', icon: '🏭', color: '#7c2d12', stackSize: 5, category: 'structure', mesh: 'box' },
+  SOLAR_PANEL: { name: 'Solar Panel', icon: '🔆', color: '#1e3a8a', stackSize: 10, category: 'structure', mesh: 'box' },
+  POWER_POLE: { name: 'Power Pole', icon: '🗼', color: '#6b4f2a', stackSize: 20, category: 'structure', mesh: 'log' },
+  FAN: { name: 'Cooling Fan', icon: '🌀', color: '#9ca3af', stackSize: 10, category: 'structure', mesh: 'box' },
+  WATER_COOLER: { name: 'Water Cooler', icon: '🧊', color: '#0ea5e9', stackSize: 5, category: 'structure', mesh: 'box' }
+} satisfies Record<string, ItemDef>;
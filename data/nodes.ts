@@ -0,0 +1,12 @@
+import type { NodeDef, NodeType } from '../types';
+
+// --- Resource Node Data ---
+// Hits per unit, finite yield and how each kind comes back once it is used up.
+export const NODE_DATA: Record<NodeType, NodeDef> = {
+  TREE: { drop: 'WOOD', maxHealth: 4, yield: 3, regrowth: 'regrow', regrowTime: 90, color: '#4a6b38' }, // Leaves, not the wood item
+  STONE: { drop: 'STONE', maxHealth: 3, yield: 1, regrowth: 'respawn', regrowTime: 15 },
+  COAL: { drop: 'COAL', maxHealth: 2, yield: 4, regrowth: 'replenish', regrowTime: 60 },
+  COPPER: { drop: 'COPPER_ORE', maxHealth: 4, yield: 5, regrowth: 'replenish', regrowTime: 90 },
+  METAL: { drop: 'METAL_ORE', maxHealth: 5, yield: 6, regrowth: 'replenish', regrowTime: 120 },
+  JUNK: { drop: 'SCRAP', maxHealth: 2, yield: 1, regrowth: 'respawn', regrowTime: 15 }
+};
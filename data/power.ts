@@ -0,0 +1,13 @@
+import type { ItemType, PowerDef } from '../types';
+
+// --- Power Data ---
+// Grid members by structure type. Anything within cable reach of another member joins its grid;
+// a grid powers its rigs and coolers only while its supply covers their whole demand.
+export const POWER_DATA: Partial<Record<ItemType, PowerDef>> = {
+  COAL_GENERATOR: { supply: 1200, reach: 3.5, fuel: 'COAL', burnTime: 60, fuelSlot: 20 },
+  SOLAR_PANEL: { supply: 300, reach: 3.5, solar: true },
+  POWER_POLE: { reach: 12 },
+  MINING_RIG: { reach: 3.5 }, // Demand depends on the tier, see data/rigs.ts
+  FAN: { demand: 50, reach: 3.5 },
+  WATER_COOLER: { demand: 150, reach: 3.5 }
+};
@@ -0,0 +1,62 @@
+import type { RecipeData } from '../types';
+
+// --- Recipe Data ---
+// Plain JSON-shaped data keyed by item id. Checked by loadRecipes() when the game starts.
+export const RECIPE_DATA: RecipeData[] = [
+  // Processing Raw Materials
+  { output: 'SILICON', count: 1, inputs: [{ item: 'STONE', count: 2 }, { item: 'COAL', count: 1 }], craftTime: 2 },
+  { output: 'STEEL', count: 1, inputs: [{ item: 'METAL_ORE', count: 2 }, { item: 'COAL', count: 1 }], craftTime: 3 },
+  { output: 'COPPER_WIRE', count: 2, inputs: [{ item: 'COPPER_ORE', count: 1 }, { item: 'COAL', count: 1 }], craftTime: 2 },
+  { output: 'PLASTIC', count: 1, inputs: [{ item: 'RESIN', count: 2 }, { item: 'COAL', count: 1 }], craftTime: 2 },
+
+  // Components
+  {
+    output: 'CIRCUIT_BOARD',
+    count: 1,
+    inputs: [{ item: 'SILICON', count: 2 }, { item: 'COPPER_WIRE', count: 3 }, { item: 'PLASTIC', count: 1 }],
+    craftTime: 5
+  },
+  {
+    output: 'GPU',
+    count: 1,
+    inputs: [{ item: 'CIRCUIT_BOARD', count: 2 }, { item: 'COPPER_WIRE', count: 4 }, { item: 'PLASTIC', count: 2 }, { item: 'STEEL', count: 1 }],
+    craftTime: 8
+  },
+  {
+    output: 'ASIC_CHIP',
+    count: 1,
+    inputs: [{ item: 'SILICON', count: 6 }, { item: 'CIRCUIT_BOARD', count: 3 }, { item: 'COPPER_WIRE', count: 6 }],
+    craftTime: 12
+  },
+  { output: 'FRAME', count: 1, inputs: [{ item: 'STEEL', count: 4 }, { item: 'SCRAP', count: 2 }], craftTime: 4 },
+
+  // Final
+  {
+    output: 'MINING_RIG',
+    count: 1,
+    inputs: [{ item: 'CIRCUIT_BOARD', count: 3 }, { item: 'FRAME', count: 1 }, { item: 'PLASTIC', count: 2 }],
+    craftTime: 10
+  },
+  { output: 'FOUNDATION', count: 1, inputs: [{ item: 'STONE', count: 4 }, { item: 'WOOD', count: 1 }], craftTime: 5 },
+  { output: 'WALL', count: 1, inputs: [{ item: 'WOOD', count: 4 }], craftTime: 3 },
+  { output: 'ROOF', count: 1, inputs: [{ item: 'WOOD', count: 4 }], craftTime: 3 },
+
+  // Power
+  {
+    output: 'COAL_GENERATOR',
+    count: 1,
+    inputs: [{ item: 'FRAME', count: 1 }, { item: 'STEEL', count: 4 }, { item: 'COPPER_WIRE', count: 4 }],
+    craftTime: 8
+  },
+  {
+    output: 'SOLAR_PANEL',
+    count: 1,
+    inputs: [{ item: 'SILICON', count: 4 }, { item: 'COPPER_WIRE', count: 2 }, { item: 'STEEL', count: 1 }],
+    craftTime: 6
+  },
+  { output: 'POWER_POLE', count: 1, inputs: [{ item: 'WOOD', count: 3 }, { item: 'COPPER_WIRE', count: 2 }], craftTime: 3 },
+
+  // Cooling
+  { output: 'FAN', count: 1, inputs: [{ item: 'STEEL', count: 2 }, { item: 'COPPER_WIRE', count: 4 }], craftTime: 4 },
+  { output: 'WATER_COOLER', count: 1, inputs: [{ item: 'STEEL', count: 6 }, { item: 'COPPER_WIRE', count: 8 }], craftTime: 8 }
+];
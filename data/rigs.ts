@@ -0,0 +1,10 @@
+import type { RigTierDef } from '../types';
+
+// --- Rig Tiers ---
+// Every rig is built as a CPU rig and upgraded in place. Each tier mines faster but draws more
+// power and runs hotter, so the grid and the cooling have to grow with it.
+export const RIG_TIERS: RigTierDef[] = [
+  { name: 'CPU Rig', hashRate: 1, demand: 300, heat: 2, upgrade: [] },
+  { name: 'GPU Rig', hashRate: 3, demand: 600, heat: 3, upgrade: [{ item: 'GPU', count: 2 }] },
+  { name: 'ASIC Rig', hashRate: 8, demand: 800, heat: 4, upgrade: [{ item: 'ASIC_CHIP', count: 2 }, { item: 'FRAME', count: 1 }] }
+];
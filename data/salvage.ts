@@ -0,0 +1,11 @@
+import type { SalvageDrop } from '../types';
+
+// --- Underwater Salvage ---
+// Sunken junk has been sitting there since before the crash: it breaks into more than plain scrap.
+export const SALVAGE_TABLE: SalvageDrop[] = [
+  { item: 'SCRAP', chance: 1, min: 1, max: 3 },
+  { item: 'COPPER_WIRE', chance: 0.4, min: 1, max: 2 },
+  { item: 'STEEL', chance: 0.3, min: 1, max: 2 },
+  { item: 'PLASTIC', chance: 0.3, min: 1, max: 2 },
+  { item: 'CIRCUIT_BOARD', chance: 0.08, min: 1, max: 1 }
+];
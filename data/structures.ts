@@ -0,0 +1,51 @@
+import type { ItemType, SocketDef, StructureDef } from '../types';
+
+// --- Structure Data ---
+// Durability, bulk and attachment points by structure type. Tool swings, bots and acid rain all
+// wear structures down. Building pieces sit on a 3m grid: a foundation's top is its anchor, walls
+// stand on foundation edges and carry roofs, and anything without sockets goes on the ground or
+// a foundation floor. Walls and roofs hold up only as far as their supports reach (see
+// engine/stability.ts): about six walls high off a foundation, or a couple of roofs out from a wall.
+
+const QUARTER = Math.PI / 2;
+
+// Foundations run on in every direction and take a wall along each edge
+const FOUNDATION_SOCKETS: SocketDef[] = [
+  { offset: [3, 0, 0], rotation: 0, accepts: ['FOUNDATION'] },
+  { offset: [-3, 0, 0], rotation: 0, accepts: ['FOUNDATION'] },
+  { offset: [0, 0, 3], rotation: 0, accepts: ['FOUNDATION'] },
+  { offset: [0, 0, -3], rotation: 0, accepts: ['FOUNDATION'] },
+  { offset: [0, 0.5, 1.5], rotation: 0, accepts: ['WALL'] },
+  { offset: [0, 0.5, -1.5], rotation: 0, accepts: ['WALL'] },
+  { offset: [1.5, 0.5, 0], rotation: QUARTER, accepts: ['WALL'] },
+  { offset: [-1.5, 0.5, 0], rotation: QUARTER, accepts: ['WALL'] }
+];
+
+// Walls continue sideways, stack up, and carry a roof on either side of their top
+const WALL_SOCKETS: SocketDef[] = [
+  { offset: [3, 0, 0], rotation: 0, accepts: ['WALL'] },
+  { offset: [-3, 0, 0], rotation: 0, accepts: ['WALL'] },
+  { offset: [0, 3, 0], rotation: 0, accepts: ['WALL'] },
+  { offset: [0, 3.5, 1.5], rotation: 0, accepts: ['ROOF'] },
+  { offset: [0, 3.5, -1.5], rotation: 0, accepts: ['ROOF'] }
+];
+
+// Roofs run on over neighbouring cells
+const ROOF_SOCKETS: SocketDef[] = [
+  { offset: [3, 0, 0], rotation: 0, accepts: ['ROOF'] },
+  { offset: [-3, 0, 0], rotation: 0, accepts: ['ROOF'] },
+  { offset: [0, 0, 3], rotation: 0, accepts: ['ROOF'] },
+  { offset: [0, 0, -3], rotation: 0, accepts: ['ROOF'] }
+];
+
+export const STRUCTURE_DATA: Partial<Record<ItemType, StructureDef>> = {
+  MINING_RIG: { maxHealth: 100, size: [1.2, 1.8, 1], base: 0 },
+  FOUNDATION: { maxHealth: 400, size: [3, 4, 3], base: -4, maxDrop: 3, grounded: true, sockets: FOUNDATION_SOCKETS, groundStability: 100 },
+  WALL: { maxHealth: 200, size: [3, 3, 0.2], base: -0.5, maxDrop: 1, sockets: WALL_SOCKETS, groundStability: 60, stabilityLoss: 5 },
+  ROOF: { maxHealth: 150, size: [3, 3, 3], base: -1, sockets: ROOF_SOCKETS, groundStability: 30, stabilityLoss: 8 },
+  COAL_GENERATOR: { maxHealth: 150, size: [1.6, 2.4, 1.2], base: 0 },
+  SOLAR_PANEL: { maxHealth: 60, size: [1.6, 1.3, 1.1], base: 0 },
+  POWER_POLE: { maxHealth: 80, size: [0.3, 4, 0.3], base: 0 },
+  FAN: { maxHealth: 60, size: [1, 1.1, 0.3], base: 0 },
+  WATER_COOLER: { maxHealth: 120, size: [1.8, 1.4, 1], base: 0 }
+};
@@ -0,0 +1,9 @@
+import type { CoolerDef, ItemType } from '../types';
+
+// --- Cooling Data ---
+// Powered coolers by structure type. A cooler's capacity is shared by every rig in its range,
+// so one fan keeps a pair of rigs comfortable but not a whole farm.
+export const COOLER_DATA: Partial<Record<ItemType, CoolerDef>> = {
+  FAN: { cooling: 0.08, range: 4 },
+  WATER_COOLER: { cooling: 0.3, range: 6 }
+};
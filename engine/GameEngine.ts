@@ -0,0 +1,1454 @@
+import { AIPlayer, CraftJob, GameEvent, ItemStack, ItemType, NodeDef, NodeRegrowth, Recipe, ResourceNodeData, Structure, AD_REVENUE, MAX_POT, OWNER_FEE, BRAND_SPLIT } from '../types';
+import { createRng, deriveRng, Rng } from '../utils/random';
+import { createTerrain, Terrain, WATER_LEVEL } from './terrain';
+import { generateChunk, generateAIPlayers } from './worldgen';
+import { CHUNK_SIZE, UNLOAD_RADIUS, chunkAt, chunkBounds, chunkCoords, chunkDistance, chunksAround } from './chunks';
+import { collides } from './collision';
+import { createNavigator } from './navigation';
+import { createWorldIndex, findNearestNode, WorldIndex } from './spatial';
+import { updateBot, provokeBot, alertStolenRig, BotContext } from './ai';
+import { createClock, FIXED_STEP } from './clock';
+import { daylight, isNight, DEFAULT_DAY_LENGTH, MORNING } from './daycycle';
+import { computePower, hasFuel, isPowered, PowerStatus } from './power';
+import { fittedParts, nextRigTier, rigTier } from './rigs';
+import { ambientTemperature, stepRigHeat, thermalThrottle, NEIGHBOUR_RADIUS } from './thermal';
+import { computeShelter, corrosionRate, isCovered, shelterAt, Shelter } from './shelter';
+import { demolitionRefund, isDamaged, maxStructureHealth, repairCost } from './durability';
+import { findPlacement, Piece, Placement } from './building';
+import { buildProblem, computeStability, MIN_STABILITY } from './stability';
+import { blueprintCost, blueprintProblems, missingItems } from './blueprints';
+import { ITEMS, isStructureItem, itemName } from './registry';
+import { NODE_DATA } from '../data/nodes';
+import { SALVAGE_TABLE } from '../data/salvage';
+import { POWER_DATA } from '../data/power';
+import { COOLER_DATA } from '../data/thermal';
+import { RIG_TIERS } from '../data/rigs';
+import { findRecipe, reservedInputs, planCraft, planStockCost, MAX_QUEUED_JOBS } from './crafting';
+import { EngineOptions, EngineState, PlayerPose, SpawnPoint, WorldSnapshot } from './types';
+
+const BASE_MINING_RATE = 0.000083; // $/sec per rig
+const STARTING_POT = 2500;
+const DEFAULT_PLAYER_POS: PlayerPose = [0, 5, 5, 1, 0];
+
+// System periods (seconds of game time)
+const MINING_INTERVAL = 1;
+const AI_INTERVAL = FIXED_STEP;
+const EVENT_INTERVAL = 30;
+const CHUNK_INTERVAL = 0.5;
+const DAY_INTERVAL = 1;
+const POWER_INTERVAL = 1;
+const THERMAL_INTERVAL = 1;
+const CORROSION_INTERVAL = 1;
+const MARKET_INTERVAL = 30;
+
+const AD_DURATION = 4;
+const ACID_RAIN_DURATION = 20;
+const BOT_RESPAWN_DELAY = 30;
+
+// Player vitals
+export const PLAYER_MAX_HEALTH = 100;
+const VITALS_INTERVAL = 1;
+const ACID_RAIN_DAMAGE = 3; // per second while exposed
+const PLAYER_REGEN = 1; // per second while safe
+const FALL_SAFE_HEIGHT = 4; // m
+const FALL_DAMAGE_PER_METER = 10;
+const BOT_ATTACK_DAMAGE = 10;
+const DEATH_DROP_FRACTION = 0.5; // Share of each stack left behind on death
+export const PLAYER_MAX_BREATH = 20; // s underwater before drowning starts
+const BREATH_RECOVERY = 5; // s of breath regained per second at the surface
+const DROWNING_DAMAGE = 10; // per second out of breath
+
+// Structure wear
+const STRUCTURE_HIT_DAMAGE = 25; // per player swing
+const BOT_STRUCTURE_DAMAGE = 20; // per bot swing
+
+export interface GameEngine {
+  getState: () => EngineState;
+  subscribe: (listener: () => void) => () => void;
+  // Feed real elapsed seconds; the clock turns them into scaled fixed steps
+  tick: (dt: number) => void;
+  setPaused: (paused: boolean) => void;
+  setTimeScale: (scale: number) => void;
+  // Seconds of game time per full day/night cycle
+  setDayLength: (seconds: number) => void;
+
+  // Player pose is written every frame by the renderer, so it lives outside the published state
+  getPlayerPos: () => PlayerPose;
+  setPlayerPos: (pos: PlayerPose) => void;
+  // Ground of the current world, a new one for every world started or loaded
+  getTerrain: () => Terrain;
+
+  snapshot: () => WorldSnapshot;
+  loadWorld: (snapshot: WorldSnapshot) => void;
+  newWorld: (seed: string) => void;
+
+  addLog: (msg: string) => void;
+  addToInventory: (item: ItemType, count: number) => void;
+  dropItem: (item: ItemType) => void;
+  // Queue `quantity` batches, reserving all inputs up front
+  craft: (recipe: Recipe, quantity?: number) => boolean;
+  // Queue every step needed to make `quantity` of an item from what's in the inventory
+  craftChain: (target: ItemType, quantity?: number) => boolean;
+  cancelCraft: (jobId: string) => void;
+  // Where a piece aimed at `aim` would go: onto a nearby socket, else the build grid
+  snapPlacement: (type: ItemType, aim: [number, number, number], rotation: number) => Placement;
+  // Why a piece can't be built there, null when it can
+  checkPlacement: (type: ItemType, position: [number, number, number], rotation: number) => string | null;
+  placeStructure: (type: ItemType, position: [number, number, number], rotation: number) => boolean;
+  // Why each piece of a stamped blueprint can't be built, null for those that can
+  checkBlueprint: (pieces: Piece[]) => (string | null)[];
+  // Builds all of a stamped blueprint or, when anything is missing or in the way, none of it
+  placeBlueprint: (name: string, pieces: Piece[]) => boolean;
+  pickupStructure: (id: string) => void;
+  claimStructure: (id: string) => void;
+  // Load a generator's fuel slot from the inventory
+  fuelStructure: (id: string) => void;
+  // Move a rig up to the next hardware tier
+  upgradeStructure: (id: string) => void;
+  // Patch a damaged structure back to full health with part of its recipe
+  repairStructure: (id: string) => void;
+  // Player swing; demolishes the structure once its health runs out
+  hitStructure: (id: string) => void;
+  updateResource: (id: string, newData: ResourceNodeData) => void;
+  destroyNode: (id: string) => void;
+  hitNode: (id: string, isBot?: boolean) => void;
+  hitPlayer: (id: string) => void;
+  checkCollision: (x: number, z: number, ignoreId?: string) => boolean;
+  triggerAd: (reason: string, delay?: number) => void;
+  // Player vitals. Falls are measured by the renderer, which owns vertical movement.
+  applyFallDamage: (height: number) => void;
+  handleDeath: (cause?: string) => void;
+  respawnPlayer: (spawnId: string) => void;
+  cashOut: () => void;
+
+  // Figures worked out from a state, each engine caching them until the structures change
+  getPowerStatus: (state: EngineState) => PowerStatus;
+  getPoweredRigCount: (state: EngineState) => number;
+  getRigShelter: (state: EngineState) => Map<string, Shelter>;
+  getShelteredRigCount: (state: EngineState) => number;
+  getStability: (state: EngineState) => Map<string, number>;
+  getMiningRate: (state: EngineState) => number;
+  // Ids of the rigs, player and bot, doing any work right now
+  getActiveRigs: (state: EngineState) => Set<string>;
+}
+
+// Player-owned rigs only; bot rigs drain the pot but pay the bots
+export const getMiningRigCount = (state: EngineState): number => {
+  return state.structures.filter(s => s.type === ItemType.MINING_RIG && !s.ownerId).length;
+};
+
+// How hard the network lets rigs work: sponsor breaks stop it, an empty pot throttles it
+const networkLoad = (state: EngineState): number => {
+  if (state.activeEvent === GameEvent.AD_BREAK) return 0;
+  return state.globalPot > 0 ? 1.0 : 0.1;
+};
+
+// Player rigs that tripped on heat and are waiting to cool down
+export const getOverheatedRigCount = (state: EngineState): number =>
+  state.structures.filter(s => s.type === ItemType.MINING_RIG && !s.ownerId && s.overheated).length;
+
+// Hottest player rig in °C, null without any
+export const getHottestRig = (state: EngineState): number | null => {
+  const temps = state.structures.filter(s => s.type === ItemType.MINING_RIG && !s.ownerId).map(s => s.temperature ?? 0);
+  return temps.length > 0 ? Math.max(...temps) : null;
+};
+
+export const isPlayerDead = (state: EngineState): boolean => state.playerHealth <= 0;
+
+// World spawn plus every foundation the player owns
+export const getSpawnPoints = (state: EngineState): SpawnPoint[] => [
+  { id: 'world', label: 'World Spawn', position: [DEFAULT_PLAYER_POS[0], DEFAULT_PLAYER_POS[1], DEFAULT_PLAYER_POS[2]] },
+  ...state.structures
+    .filter(s => s.type === ItemType.FOUNDATION && !s.ownerId)
+    .map(s => ({
+      id: s.id,
+      label: `Foundation (${Math.round(s.position[0])}, ${Math.round(s.position[2])})`,
+      position: s.position
+    }))
+];
+
+const isSheltered = (state: EngineState, index: WorldIndex, x: number, y: number, z: number): boolean => {
+  return isCovered(shelterAt(index.structures(state.structures), x, y, z));
+};
+
+let nextId = 0;
+const uid = (prefix: string) => `${prefix}-${Date.now()}-${nextId++}`;
+
+const newStructure = (type: ItemType, position: [number, number, number], rotation: number, ownerId?: string): Structure => {
+  const maxHealth = maxStructureHealth(type);
+  return { id: uid(ownerId ? 'bot-struct' : 'struct'), type, position, rotation, ownerId, health: maxHealth, maxHealth };
+};
+
+const stackList = (stacks: ItemStack[]) => stacks.map(s => `${s.count}x ${itemName(s.item)}`).join(', ');
+
+export const createGameEngine = (options: EngineOptions = {}): GameEngine => {
+  const seedRandom = (seed: string): Rng => options.random ?? deriveRng(seed, 'play');
+  let random = seedRandom('');
+  const listeners = new Set<() => void>();
+  const clock = createClock();
+
+  let state: EngineState = {
+    seed: '',
+    epoch: 0,
+    paused: false,
+    timeScale: 1,
+    botSpawns: 0,
+    inventory: { [ItemType.STONE]: 0 },
+    money: 0,
+    globalPot: STARTING_POT,
+    ownerBalance: 0,
+    marketModifier: 1.0,
+    marketHeadline: "Market Initialize...",
+    activeEvent: GameEvent.NONE,
+    timeOfDay: MORNING,
+    dayLength: DEFAULT_DAY_LENGTH,
+    logs: [],
+    resources: [],
+    loadedChunks: [],
+    structures: [],
+    aiPlayers: [],
+    craftQueue: [],
+    playerHealth: PLAYER_MAX_HEALTH,
+    playerBreath: PLAYER_MAX_BREATH
+  };
+  let playerPos: PlayerPose = [...DEFAULT_PLAYER_POS];
+  // Ground of the current world, replaced whenever another world starts or loads
+  let terrain = createTerrain('');
+  // Nodes of chunks out of range, by chunk key. Kept out of state since nothing renders them.
+  let storedChunks: Record<string, ResourceNodeData[]> = {};
+  // Bot paths. Invalidated whenever a structure or node appears or disappears.
+  const navigator = createNavigator(() => ({
+    terrain,
+    resources: state.resources,
+    structures: state.structures,
+    bounds: chunkBounds(state.loadedChunks)
+  }));
+  const index = createWorldIndex();
+
+  // --- Derived State ---
+  // Grids only change with the structures or the light, so each engine reuses its last answer until then
+  let powerCache: { structures: Structure[]; light: number; status: PowerStatus } | null = null;
+  const getPowerStatus = (state: EngineState): PowerStatus => {
+    const light = daylight(state.timeOfDay);
+    if (powerCache?.structures !== state.structures || powerCache.light !== light) {
+      powerCache = { structures: state.structures, light, status: computePower(state.structures, light) };
+    }
+    return powerCache.status;
+  };
+
+  // Player rigs on a grid with enough supply
+  const getPoweredRigCount = (state: EngineState): number => {
+    const status = getPowerStatus(state);
+    return state.structures.filter(s => s.type === ItemType.MINING_RIG && !s.ownerId && isPowered(status, s)).length;
+  };
+
+  // Rig shelter only changes with the structures, same as the grids
+  let shelterCache: { structures: Structure[]; shelter: Map<string, Shelter> } | null = null;
+  const getRigShelter = (state: EngineState): Map<string, Shelter> => {
+    if (shelterCache?.structures !== state.structures) {
+      shelterCache = { structures: state.structures, shelter: computeShelter(state.structures) };
+    }
+    return shelterCache.shelter;
+  };
+
+  // Stability of every wall, roof and foundation, again only changing with the structures
+  let stabilityCache: { structures: Structure[]; stability: Map<string, number> } | null = null;
+  const getStability = (state: EngineState): Map<string, number> => {
+    if (stabilityCache?.structures !== state.structures) {
+      stabilityCache = { structures: state.structures, stability: computeStability(terrain, state.structures) };
+    }
+    return stabilityCache.stability;
+  };
+
+  const isRigCovered = (state: EngineState, rig: Structure): boolean => isCovered(getRigShelter(state).get(rig.id) ?? 'EXPOSED');
+
+  // Player rigs under a roof, which keep mining through acid rain
+  const getShelteredRigCount = (state: EngineState): number =>
+    state.structures.filter(s => s.type === ItemType.MINING_RIG && !s.ownerId && isRigCovered(state, s)).length;
+
+  // Share of full speed a rig runs at: nothing without power or out in a storm, less when it runs hot
+  const rigWork = (state: EngineState, rig: Structure): number => {
+    if (!isPowered(getPowerStatus(state), rig)) return 0;
+    if (state.activeEvent === GameEvent.ACID_RAIN && !isRigCovered(state, rig)) return 0;
+    return thermalThrottle(rig);
+  };
+
+  // What a rig mines, in base (CPU) rigs at full speed
+  const rigOutput = (state: EngineState, rig: Structure): number => rigWork(state, rig) * rigTier(rig).hashRate;
+
+  // Summed output of the player's rigs, in base rigs
+  const getPlayerOutput = (state: EngineState): number => {
+    return state.structures
+      .filter(s => s.type === ItemType.MINING_RIG && !s.ownerId)
+      .reduce((sum, rig) => sum + rigOutput(state, rig), 0);
+  };
+
+  const getMiningRate = (state: EngineState): number => {
+    return getPlayerOutput(state) * BASE_MINING_RATE * state.marketModifier * networkLoad(state);
+  };
+
+  // Rig activity changes with the structures, the grids, the weather and the network load
+  let activeCache: { structures: Structure[]; power: PowerStatus; event: GameEvent; load: number; active: Set<string> } | null = null;
+  const getActiveRigs = (state: EngineState): Set<string> => {
+    const power = getPowerStatus(state);
+    const load = networkLoad(state);
+    if (activeCache?.structures !== state.structures || activeCache.power !== power || activeCache.event !== state.activeEvent || activeCache.load !== load) {
+      const active = load > 0
+        ? state.structures.filter(s => s.type === ItemType.MINING_RIG && rigWork(state, s) > 0).map(s => s.id)
+        : [];
+      activeCache = { structures: state.structures, power, event: state.activeEvent, load, active: new Set(active) };
+    }
+    return activeCache.active;
+  };
+
+  const set = (partial: Partial<EngineState>) => {
+    state = { ...state, ...partial };
+    listeners.forEach(listener => listener());
+  };
+
+  const addLog = (msg: string) => {
+    set({ logs: [msg, ...state.logs].slice(0, 5) });
+  };
+
+  const addToInventory = (item: ItemType, count: number) => {
+    set({ inventory: { ...state.inventory, [item]: (state.inventory[item] || 0) + count } });
+  };
+
+  // --- Sponsor / Ads ---
+  const triggerAd = (reason: string, delay: number = 0) => {
+    if (delay > 0) {
+      clock.schedule(delay, 'adStart', { reason }, 'session');
+      return;
+    }
+
+    set({ activeEvent: GameEvent.AD_BREAK });
+    addLog(`SPONSOR: ${reason}`);
+    clock.schedule(AD_DURATION, 'adEnd', {}, 'session');
+  };
+
+  const closeAdDeal = () => {
+    // 50% to Pot, 50% to Owner
+    const totalPayment = AD_REVENUE;
+    const potShare = totalPayment * BRAND_SPLIT;
+    const ownerShare = totalPayment * (1 - BRAND_SPLIT);
+
+    set({
+      globalPot: Math.min(state.globalPot + potShare, MAX_POT),
+      ownerBalance: state.ownerBalance + ownerShare
+    });
+    addLog(`Deal Closed: $${potShare} to Pot, $${ownerShare} to Owner.`);
+    set({ activeEvent: GameEvent.NONE });
+  };
+
+  // --- Resources ---
+  // --- Regrowth ---
+  // Used-up nodes come back by type (see data/nodes.ts): stone and scrap respawn elsewhere in their
+  // chunk, trees regrow in place, ore veins refill one unit at a time.
+  // Delays and locations come from a stream keyed by node id and respawn count, so they are seed-stable.
+  const respawnRng = (node: ResourceNodeData) => deriveRng(state.seed, 'respawn', node.id, node.respawns ?? 0);
+
+  const REGROWTH_TIMERS: Record<NodeRegrowth, string> = {
+    respawn: 'nodeRespawn',
+    regrow: 'nodeRegrow',
+    replenish: 'nodeReplenish'
+  };
+
+  const nodeDef = (node: ResourceNodeData): NodeDef | undefined => {
+    return node.type === 'LOOSE_ITEM' ? undefined : NODE_DATA[node.type];
+  };
+
+  const yieldLeft = (node: ResourceNodeData): number => node.yieldLeft ?? nodeDef(node)?.yield ?? 1;
+
+  const needsRegrowth = (node: ResourceNodeData): boolean => {
+    const def = nodeDef(node);
+    if (!def) return false;
+    return node.health <= 0 || (def.regrowth === 'replenish' && yieldLeft(node) < def.yield);
+  };
+
+  const pendingRegrowth = (): Set<string> => new Set(
+    Object.values(REGROWTH_TIMERS).flatMap(kind => clock.pending(kind).map(t => String(t.payload.id)))
+  );
+
+  const scheduleRegrowth = (node: ResourceNodeData) => {
+    const def = nodeDef(node);
+    if (!def || !needsRegrowth(node) || pendingRegrowth().has(node.id)) return;
+    const delay = def.regrowTime * (1 + respawnRng(node)());
+    clock.schedule(delay, REGROWTH_TIMERS[def.regrowth], { id: node.id });
+  };
+
+  const respawnNode = (id: string) => {
+    const node = index.nodeById(state.resources, id);
+    if (!node) return;
+
+    const rng = respawnRng(node);
+    rng(); // Skip the roll already used for the delay
+    const [cx, cz] = chunkCoords(chunkAt(node.position[0], node.position[2]));
+    let rx = (cx + rng()) * CHUNK_SIZE;
+    let rz = (cz + rng()) * CHUNK_SIZE;
+    let ry = terrain.height(rx, rz);
+
+    if (ry < -2.0 && node.type !== 'JUNK') {
+        rx = (cx + rng()) * CHUNK_SIZE;
+        rz = (cz + rng()) * CHUNK_SIZE;
+        ry = terrain.height(rx, rz);
+    }
+
+    set({
+      resources: state.resources.map(r => r.id !== id ? r : {
+        ...r,
+        health: r.maxHealth,
+        yieldLeft: nodeDef(r)?.yield,
+        position: [rx, ry, rz],
+        respawns: (r.respawns ?? 0) + 1
+      })
+    });
+    navigator.invalidate();
+  };
+
+  const regrowNode = (id: string) => {
+    const node = index.nodeById(state.resources, id);
+    if (!node) return;
+    set({ resources: state.resources.map(r => r.id === id ? { ...r, health: r.maxHealth, yieldLeft: nodeDef(r)?.yield } : r) });
+    navigator.invalidate();
+  };
+
+  const replenishNode = (id: string) => {
+    const node = index.nodeById(state.resources, id);
+    if (!node) return;
+    const refilled = { ...node, health: node.maxHealth, yieldLeft: yieldLeft(node) + 1 };
+    set({ resources: state.resources.map(r => r.id === id ? refilled : r) });
+    if (node.health <= 0) navigator.invalidate();
+    scheduleRegrowth(refilled);
+  };
+
+  // Used-up nodes without a pending timer, e.g. it fired while their chunk was parked
+  const rearmRegrowth = (nodes: ResourceNodeData[]) => {
+    nodes.filter(needsRegrowth).forEach(scheduleRegrowth);
+  };
+
+  // Snaps a node onto the ground. Saves made with an older terrain generator would float otherwise.
+  const groundNode = (node: ResourceNodeData): ResourceNodeData => {
+    const y = terrain.height(node.position[0], node.position[2]);
+    return node.position[1] === y ? node : { ...node, position: [node.position[0], y, node.position[2]] };
+  };
+
+  // --- World Streaming ---
+  // Chunks around the player are loaded, the ones left behind are parked in storedChunks.
+  // Anything lying in a chunk that was never visited joins that chunk's generated nodes.
+  const parkNode = (node: ResourceNodeData) => {
+    const key = chunkAt(node.position[0], node.position[2]);
+    storedChunks[key] = [...(storedChunks[key] ?? generateChunk(terrain, key)), node];
+  };
+
+  const unparkChunk = (key: string): ResourceNodeData[] => {
+    const stored = storedChunks[key];
+    if (!stored) return generateChunk(terrain, key);
+    delete storedChunks[key];
+    return stored.map(groundNode);
+  };
+
+  const streamChunks = () => {
+    const [px, , pz] = playerPos;
+    const loaded = new Set(state.loadedChunks.filter(key => chunkDistance(key, px, pz) <= UNLOAD_RADIUS));
+    const leaving = state.loadedChunks.filter(key => !loaded.has(key));
+    const arriving = chunksAround(px, pz).filter(key => !loaded.has(key));
+    if (leaving.length === 0 && arriving.length === 0) return;
+
+    // Parked even when empty, so coming back doesn't generate it again
+    leaving.forEach(key => { storedChunks[key] ??= []; });
+    arriving.forEach(key => loaded.add(key));
+
+    const kept = state.resources.filter(r => {
+      if (loaded.has(chunkAt(r.position[0], r.position[2]))) return true;
+      parkNode(r);
+      return false;
+    });
+    const arrived = arriving.flatMap(unparkChunk);
+
+    set({ loadedChunks: [...loaded], resources: [...kept, ...arrived] });
+    navigator.invalidate();
+    rearmRegrowth(arrived);
+  };
+
+  const spawnLoot = (pos: [number, number, number], item: ItemType, count: number) => {
+     // Drop full stacks as piles, capped so a bot with 1000 items can't flood the world
+     const stackSize = ITEMS[item].stackSize;
+     const dropCount = Math.min(Math.ceil(count / stackSize), 10);
+
+     const newNodes: ResourceNodeData[] = [];
+     for (let i = 0; i < dropCount; i++) {
+         const offsetX = (random() - 0.5) * 1.5;
+         const offsetZ = (random() - 0.5) * 1.5;
+         const nx = pos[0] + offsetX;
+         const nz = pos[2] + offsetZ;
+         const ny = terrain.height(nx, nz) + 0.5; // slight air drop
+
+         newNodes.push({
+             id: uid('loot'),
+             type: 'LOOSE_ITEM',
+             position: [nx, ny, nz],
+             health: 1,
+             maxHealth: 1,
+             drop: item,
+             color: ITEMS[item].color,
+             amount: Math.min(stackSize, count - i * stackSize)
+         });
+     }
+     set({ resources: [...state.resources, ...newNodes] });
+  };
+
+  const dropItem = (item: ItemType) => {
+    if ((state.inventory[item] || 0) <= 0) return;
+
+    const [px, , pz, dx, dz] = playerPos;
+    const dropDistance = 1.5;
+    const randomOffset = (random() - 0.5) * 0.2;
+
+    const nx = px + (dx * dropDistance) + (-dz * randomOffset);
+    const nz = pz + (dz * dropDistance) + (dx * randomOffset);
+    const ny = terrain.height(nx, nz);
+
+    const newNode: ResourceNodeData = {
+      id: uid('drop'),
+      type: 'LOOSE_ITEM',
+      position: [nx, ny, nz],
+      health: 1,
+      maxHealth: 1,
+      drop: item,
+      color: ITEMS[item].color
+    };
+
+    set({
+      resources: [...state.resources, newNode],
+      inventory: { ...state.inventory, [item]: state.inventory[item] - 1 }
+    });
+    addLog(`Dropped ${itemName(item)}`);
+  };
+
+  const updateResource = (id: string, newData: ResourceNodeData) => {
+    set({ resources: state.resources.map(r => r.id === id ? newData : r) });
+  };
+
+  const destroyNode = (id: string) => {
+    const node = index.nodeById(state.resources, id);
+    if (!node) return;
+
+    if (node.type === 'LOOSE_ITEM') {
+      set({ resources: state.resources.filter(n => n.id !== id) });
+      return;
+    }
+
+    // Stays where it was (so it comes back in the same chunk) but no longer drawn or solid
+    const depleted = { ...node, health: 0, yieldLeft: 0 };
+    set({ resources: state.resources.map(n => n.id === id ? depleted : n) });
+    scheduleRegrowth(depleted);
+    navigator.invalidate();
+  };
+
+  // Extra loot from junk broken under water
+  const salvage = () => {
+    const found = SALVAGE_TABLE
+      .filter(drop => random() < drop.chance)
+      .map(drop => ({ item: drop.item, count: drop.min + Math.floor(random() * (drop.max - drop.min + 1)) }));
+    found.forEach(({ item, count }) => addToInventory(item, count));
+    if (found.length > 0) addLog(`Salvaged ${found.map(f => `${f.count}x ${itemName(f.item)}`).join(', ')}`);
+  };
+
+  const hitNode = (id: string, isBot: boolean = false) => {
+    const node = index.nodeById(state.resources, id);
+    if (!node || node.health <= 0) return;
+
+    const newHealth = node.health - 1;
+
+    if (newHealth <= 0) {
+      if (!isBot) {
+        const amount = node.amount ?? 1;
+        addToInventory(node.drop, amount);
+        if (node.type === 'TREE') {
+          addToInventory(ItemType.RESIN, 1);
+          addLog(`+1 ${itemName(ItemType.RESIN)}`);
+        }
+        addLog(amount > 1 ? `Picked up ${amount}x ${itemName(node.drop)}` : `Harvested ${itemName(node.drop)}`);
+        if (node.type === 'JUNK' && node.position[1] < WATER_LEVEL) salvage();
+      } else {
+        addLog(`A bot mined ${node.type}!`);
+      }
+
+      // Nodes with yield left are good for another unit straight away
+      const left = yieldLeft(node) - 1;
+      if (node.type === 'LOOSE_ITEM' || left <= 0) {
+        destroyNode(id);
+        return;
+      }
+      const mined = { ...node, health: node.maxHealth, yieldLeft: left };
+      set({ resources: state.resources.map(r => r.id === id ? mined : r) });
+      scheduleRegrowth(mined);
+    } else {
+      if (!isBot) addLog(`Mining... ${Math.ceil((newHealth / node.maxHealth) * 100)}%`);
+      set({ resources: state.resources.map(r => r.id === id ? { ...r, health: newHealth } : r) });
+    }
+  };
+
+  // --- Crafting & Building ---
+  const craft = (recipe: Recipe, quantity: number = 1): boolean => {
+    if (quantity < 1) return false;
+    if (state.craftQueue.length >= MAX_QUEUED_JOBS) {
+      addLog("Fabricator queue is full.");
+      return false;
+    }
+
+    for (const input of recipe.inputs) {
+      if ((state.inventory[input.item] || 0) < input.count * quantity) {
+        addLog(`Missing ${itemName(input.item)}`);
+        return false;
+      }
+    }
+
+    const newInv = { ...state.inventory };
+    for (const input of recipe.inputs) {
+      newInv[input.item] -= input.count * quantity;
+    }
+    const job: CraftJob = { id: uid('job'), output: recipe.output, quantity, progress: 0 };
+    set({ inventory: newInv, craftQueue: [...state.craftQueue, job] });
+
+    addLog(`Queued ${quantity}x ${itemName(recipe.output)}`);
+    return true;
+  };
+
+  const craftChain = (target: ItemType, quantity: number = 1): boolean => {
+    const plan = planCraft(target, quantity, state.inventory);
+    if (plan.steps.length === 0) return false;
+    if (plan.missing.length > 0) {
+      addLog(`Missing ${plan.missing.map(m => `${m.count}x ${itemName(m.item)}`).join(', ')}`);
+      return false;
+    }
+    if (state.craftQueue.length + plan.steps.length > MAX_QUEUED_JOBS) {
+      addLog("Fabricator queue is full.");
+      return false;
+    }
+
+    const newInv = { ...state.inventory };
+    planStockCost(plan).forEach(s => {
+      newInv[s.item] -= s.count;
+    });
+    const jobs: CraftJob[] = plan.steps.map(step => ({
+      id: uid('job'),
+      output: step.recipe.output,
+      quantity: step.batches,
+      progress: 0,
+      ...(step.fromChain.length > 0 ? { awaiting: step.fromChain } : {})
+    }));
+    set({ inventory: newInv, craftQueue: [...state.craftQueue, ...jobs] });
+
+    addLog(`Queued ${jobs.length} steps for ${quantity}x ${itemName(target)}`);
+    return true;
+  };
+
+  const cancelCraft = (jobId: string) => {
+    const job = state.craftQueue.find(j => j.id === jobId);
+    if (!job) return;
+
+    const newInv = { ...state.inventory };
+    reservedInputs(job).forEach(input => {
+      newInv[input.item] = (newInv[input.item] || 0) + input.count;
+    });
+    set({ inventory: newInv, craftQueue: state.craftQueue.filter(j => j.id !== jobId) });
+    addLog(`Cancelled ${itemName(job.output)}. Inputs refunded.`);
+  };
+
+  const checkPlacement = (type: ItemType, position: [number, number, number], rotation: number): string | null => {
+    return buildProblem(terrain, index.structures(state.structures), index.nodes(state.resources), getStability(state), { type, position, rotation });
+  };
+
+  const snapPlacement = (type: ItemType, aim: [number, number, number], rotation: number): Placement => {
+    return findPlacement(terrain, index.structures(state.structures), type, aim, rotation, p => checkPlacement(type, p.position, p.rotation) === null);
+  };
+
+  const placeStructure = (type: ItemType, position: [number, number, number], rotation: number): boolean => {
+    if ((state.inventory[type] || 0) <= 0) return false;
+    const problem = checkPlacement(type, position, rotation);
+    if (problem) {
+      addLog(`Can't place ${itemName(type)}: ${problem}.`);
+      return false;
+    }
+
+    set({
+      structures: [...state.structures, newStructure(type, position, rotation)],
+      inventory: { ...state.inventory, [type]: state.inventory[type] - 1 }
+    });
+    navigator.invalidate();
+    addLog(`Built ${itemName(type)}`);
+    return true;
+  };
+
+  const checkBlueprint = (pieces: Piece[]): (string | null)[] =>
+    blueprintProblems(terrain, state.structures, index.nodes(state.resources), getStability(state), pieces);
+
+  const placeBlueprint = (name: string, pieces: Piece[]): boolean => {
+    const stray = pieces.find(p => !isStructureItem(p.type));
+    if (stray) {
+      addLog(`Can't place ${name}: ${itemName(stray.type)} isn't a building piece.`);
+      return false;
+    }
+    const cost = blueprintCost(pieces);
+    const missing = missingItems(cost, state.inventory);
+    if (missing.length > 0) {
+      addLog(`${name} needs ${stackList(missing)} more`);
+      return false;
+    }
+    const problems = checkBlueprint(pieces);
+    const blocked = problems.findIndex(p => p !== null);
+    if (blocked >= 0) {
+      addLog(`Can't place ${itemName(pieces[blocked].type)} of ${name}: ${problems[blocked]}.`);
+      return false;
+    }
+
+    const newInv = { ...state.inventory };
+    cost.forEach(stack => { newInv[stack.item] -= stack.count; });
+    set({
+      structures: [...state.structures, ...pieces.map(p => newStructure(p.type, p.position, p.rotation))],
+      inventory: newInv
+    });
+    navigator.invalidate();
+    addLog(`Built ${name} (${pieces.length} pieces)`);
+    return true;
+  };
+
+  const pickupStructure = (id: string) => {
+    const struct = state.structures.find(s => s.id === id);
+    if (!struct) return;
+
+    if (struct.ownerId) {
+      addLog("Access Denied. Press 'C' to Hack/Claim first.");
+      return;
+    }
+    if (isDamaged(struct)) {
+      addLog(`${itemName(struct.type)} is too damaged to pack up. Press [R] to repair it first.`);
+      return;
+    }
+
+    addLog(`Picked up ${itemName(struct.type)}`);
+    addToInventory(struct.type, 1);
+    refundContents(struct);
+    set({ structures: state.structures.filter(s => s.id !== id) });
+    navigator.invalidate();
+    collapseUnsupported();
+  };
+
+  const claimStructure = (id: string) => {
+    const struct = state.structures.find(s => s.id === id);
+    if (!struct) return;
+
+    if (!struct.ownerId) {
+      addLog("You already own this.");
+      return;
+    }
+    addLog("Hacked & Claimed Mining Rig!");
+    set({
+      structures: state.structures.map(s => s.id === id ? { ...s, ownerId: undefined } : s),
+      // The previous owner comes back to take it
+      aiPlayers: state.aiPlayers.map(b => b.id === struct.ownerId ? alertStolenRig(b, id) : b)
+    });
+  };
+
+  // Fits the next tier's parts into a rig without taking it down
+  const upgradeStructure = (id: string) => {
+    const struct = state.structures.find(s => s.id === id);
+    if (!struct || struct.type !== ItemType.MINING_RIG) return;
+    if (struct.ownerId) {
+      addLog("Access Denied. Press 'C' to Hack/Claim first.");
+      return;
+    }
+
+    const next = nextRigTier(struct);
+    if (!next) {
+      addLog(`${rigTier(struct).name} is already top of the line.`);
+      return;
+    }
+    const missing = next.upgrade.filter(part => (state.inventory[part.item] || 0) < part.count);
+    if (missing.length > 0) {
+      addLog(`Upgrade to ${next.name} needs ${missing.map(m => `${m.count - (state.inventory[m.item] || 0)}x ${itemName(m.item)}`).join(', ')} more`);
+      return;
+    }
+
+    const newInv = { ...state.inventory };
+    next.upgrade.forEach(part => { newInv[part.item] -= part.count; });
+    set({
+      inventory: newInv,
+      structures: state.structures.map(s => s.id === id ? { ...s, tier: (s.tier ?? 1) + 1 } : s)
+    });
+    addLog(`Upgraded to ${next.name}! ${next.hashRate}x hash rate, ${next.demand} W.`);
+  };
+
+  const repairStructure = (id: string) => {
+    const struct = state.structures.find(s => s.id === id);
+    if (!struct) return;
+    if (struct.ownerId) {
+      addLog("Access Denied. Press 'C' to Hack/Claim first.");
+      return;
+    }
+    if (!isDamaged(struct)) {
+      addLog(`${itemName(struct.type)} is in good shape.`);
+      return;
+    }
+
+    const cost = repairCost(struct);
+    const missing = cost.filter(part => (state.inventory[part.item] || 0) < part.count);
+    if (missing.length > 0) {
+      addLog(`Repair needs ${stackList(missing.map(m => ({ item: m.item, count: m.count - (state.inventory[m.item] || 0) })))} more`);
+      return;
+    }
+
+    const newInv = { ...state.inventory };
+    cost.forEach(part => { newInv[part.item] -= part.count; });
+    set({
+      inventory: newInv,
+      structures: state.structures.map(s => s.id === id ? { ...s, health: s.maxHealth } : s)
+    });
+    addLog(cost.length > 0 ? `Repaired ${itemName(struct.type)} with ${stackList(cost)}.` : `Repaired ${itemName(struct.type)}.`);
+  };
+
+  // --- Structure Damage ---
+  // Takes health off a structure. Returns it once that brings it down, leaving what is left of it
+  // to whoever dealt the blow.
+  const damageStructure = (id: string, amount: number): Structure | null => {
+    const struct = state.structures.find(s => s.id === id);
+    if (!struct) return null;
+
+    const health = struct.health - amount;
+    if (health > 0) {
+      set({ structures: state.structures.map(s => s.id === id ? { ...s, health } : s) });
+      return null;
+    }
+    set({ structures: state.structures.filter(s => s.id !== id) });
+    navigator.invalidate();
+    collapseUnsupported();
+    return struct;
+  };
+
+  // Pieces left hanging once a support is gone come down, dropping part of what went into them
+  const collapseUnsupported = () => {
+    const stability = getStability(state);
+    const fallen = state.structures.filter(s => (stability.get(s.id) ?? MIN_STABILITY) < MIN_STABILITY);
+    if (fallen.length === 0) return;
+
+    set({ structures: state.structures.filter(s => !fallen.includes(s)) });
+    navigator.invalidate();
+    fallen.forEach(s => demolitionRefund(s).forEach(stack => spawnLoot(s.position, stack.item, stack.count)));
+    addLog(`${fallen.length} unsupported piece${fallen.length > 1 ? 's' : ''} collapsed!`);
+  };
+
+  const hitStructure = (id: string) => {
+    const struct = state.structures.find(s => s.id === id);
+    if (!struct) return;
+
+    // Bots come to see who is knocking their rigs about
+    if (struct.ownerId) {
+      set({ aiPlayers: state.aiPlayers.map(b => b.id === struct.ownerId ? alertStolenRig(b, id) : b) });
+    }
+
+    const wrecked = damageStructure(id, STRUCTURE_HIT_DAMAGE);
+    if (!wrecked) return;
+    const salvage = demolitionRefund(wrecked);
+    salvage.forEach(stack => addToInventory(stack.item, stack.count));
+    addLog(salvage.length > 0
+      ? `Demolished ${itemName(wrecked.type)}. Salvaged ${stackList(salvage)}.`
+      : `Demolished ${itemName(wrecked.type)}. Nothing worth salvaging.`);
+  };
+
+  // --- Characters ---
+  const hitPlayer = (id: string) => {
+     const bot = state.aiPlayers.find(b => b.id === id);
+     if (!bot) return;
+
+     const newHealth = bot.health - 25;
+
+     if (newHealth > 0) {
+        set({ aiPlayers: state.aiPlayers.map(b => b.id === id ? provokeBot({ ...b, health: newHealth }, random) : b) });
+        return;
+     }
+
+     addLog(`Killed ${bot.name}!`);
+     set({ aiPlayers: state.aiPlayers.filter(b => b.id !== id) });
+
+     // Drop inventory
+     Object.entries(bot.inventory).forEach(([key, count]) => {
+        if (count > 0) {
+           spawnLoot(bot.position, key as ItemType, count);
+        }
+     });
+
+     // Respawn later from the seeded bot stream
+     clock.schedule(BOT_RESPAWN_DELAY, 'botRespawn');
+  };
+
+  const respawnBot = () => {
+    const index = state.botSpawns;
+    const spawned = generateAIPlayers(terrain, 1, state.resources, deriveRng(state.seed, 'bot', index), index);
+    set({ aiPlayers: [...state.aiPlayers, ...spawned], botSpawns: index + 1 });
+  };
+
+  const checkCollision = (x: number, z: number, ignoreId?: string): boolean => {
+    return collides(state, index, playerPos, x, z, ignoreId);
+  };
+
+  // --- Player Vitals ---
+  const damagePlayer = (amount: number, cause: string, announce = true) => {
+    // The player is frozen during sponsor breaks, so nothing may hurt them
+    if (isPlayerDead(state) || amount <= 0 || state.activeEvent === GameEvent.AD_BREAK) return;
+
+    const playerHealth = Math.max(0, state.playerHealth - amount);
+    if (playerHealth <= 0) {
+      handleDeath(cause);
+      return;
+    }
+    set({ playerHealth });
+    if (announce) addLog(`${cause}! -${Math.round(amount)} HP`);
+  };
+
+  const applyFallDamage = (height: number) => {
+    if (height <= FALL_SAFE_HEIGHT) return;
+    damagePlayer((height - FALL_SAFE_HEIGHT) * FALL_DAMAGE_PER_METER, "Hard landing");
+  };
+
+  // Leaves part of every stack where the player fell, then waits for a spawn choice
+  const handleDeath = (cause: string = "You Died") => {
+    if (isPlayerDead(state)) return;
+
+    const [x, y, z] = playerPos;
+    const newInv = { ...state.inventory };
+    Object.entries(state.inventory).forEach(([key, count]) => {
+      const lost = Math.floor(count * DEATH_DROP_FRACTION);
+      if (lost <= 0) return;
+      newInv[key] = count - lost;
+      spawnLoot([x, y, z], key as ItemType, lost);
+    });
+    set({ playerHealth: 0, inventory: newInv });
+
+    addLog(`CRITICAL ERROR: Connection Lost (${cause}).`);
+    addLog(`Dropped ${Math.round(DEATH_DROP_FRACTION * 100)}% of your inventory.`);
+    triggerAd("System Reboot");
+  };
+
+  const respawnPlayer = (spawnId: string) => {
+    if (!isPlayerDead(state)) return;
+
+    const spawn = getSpawnPoints(state).find(p => p.id === spawnId) ?? getSpawnPoints(state)[0];
+    let [x, , z] = spawn.position;
+    if (spawn.id !== 'world') {
+      // Step off the foundation onto the first free side
+      const side = [[3, 0], [-3, 0], [0, 3], [0, -3]].find(([dx, dz]) => !checkCollision(x + dx, z + dz)) ?? [3, 0];
+      x += side[0];
+      z += side[1];
+    }
+    playerPos = [x, terrain.height(x, z) + 1.7, z, 1, 0];
+
+    set({ playerHealth: PLAYER_MAX_HEALTH, playerBreath: PLAYER_MAX_BREATH, epoch: state.epoch + 1 });
+    addLog(`Reconnected at ${spawn.label}.`);
+  };
+
+  // Breath, drowning and acid rain exposure, otherwise health slowly recovers
+  let exposed = false;
+  const runVitals = () => {
+    if (isPlayerDead(state)) return;
+
+    const [x, eyeY, z] = playerPos;
+    const underwater = eyeY < WATER_LEVEL;
+
+    // Breath runs down with the head under the surface, then the player starts drowning
+    if (underwater) {
+      const playerBreath = Math.max(0, state.playerBreath - VITALS_INTERVAL);
+      if (playerBreath <= 0) {
+        if (state.playerBreath > 0) addLog("Out of breath! Swim up!");
+        set({ playerBreath });
+        damagePlayer(DROWNING_DAMAGE * VITALS_INTERVAL, "Drowned", false);
+        return;
+      }
+      set({ playerBreath });
+    } else if (state.playerBreath < PLAYER_MAX_BREATH) {
+      set({ playerBreath: Math.min(PLAYER_MAX_BREATH, state.playerBreath + BREATH_RECOVERY * VITALS_INTERVAL) });
+    }
+
+    // Acid rain burns anyone not under a roof; diving keeps it off too
+    const inRain = state.activeEvent === GameEvent.ACID_RAIN && !underwater && !isSheltered(state, index, x, eyeY, z);
+    if (inRain) {
+      if (!exposed) addLog("Acid rain is burning you! Get under a roof.");
+      exposed = true;
+      damagePlayer(ACID_RAIN_DAMAGE * VITALS_INTERVAL, "Dissolved by acid rain", false);
+      return;
+    }
+
+    exposed = false;
+    if (state.playerHealth < PLAYER_MAX_HEALTH) {
+      set({ playerHealth: Math.min(PLAYER_MAX_HEALTH, state.playerHealth + PLAYER_REGEN * VITALS_INTERVAL) });
+    }
+  };
+
+  const cashOut = () => {
+    if (state.money <= 0) {
+      addLog("No funds to cash out.");
+      return;
+    }
+
+    const fee = state.money * OWNER_FEE;
+    const payout = state.money - fee;
+
+    set({ money: 0, ownerBalance: state.ownerBalance + fee });
+    triggerAd("Cash Out Transaction");
+    addLog(`Withdrawn $${payout.toFixed(2)}. Owner Commission: $${fee.toFixed(2)}`);
+  };
+
+  // --- Periodic Systems ---
+  // Computers mine from the Global Pot
+  const runMining = () => {
+    // Unpowered, tripped and rained-off rigs sit idle and draw nothing from the pot, hot ones draw less
+    const totalOutput = state.structures
+      .filter(s => s.type === ItemType.MINING_RIG)
+      .reduce((sum, rig) => sum + rigOutput(state, rig), 0);
+    if (totalOutput === 0) return;
+    const load = networkLoad(state);
+    if (load === 0) return;
+
+    // Calculate total draw from pot (Players + Bots)
+    const basePerRig = BASE_MINING_RATE * state.marketModifier * load;
+    const totalDraw = totalOutput * basePerRig;
+
+    // Add to Player Wallet (only for rigs owned by player)
+    const playerIncome = getPlayerOutput(state) * basePerRig;
+
+    set({
+      globalPot: state.globalPot > 0 ? Math.max(0, state.globalPot - totalDraw) : state.globalPot,
+      money: state.money + playerIncome
+    });
+  };
+
+  const botContext: BotContext = {
+    random: () => random(),
+    getTerrain: () => terrain,
+    getNode: (id) => index.nodeById(state.resources, id),
+    daylight: () => daylight(state.timeOfDay),
+    findNearestNode: (x, z, maxDist, filter) => findNearestNode(index.nodes(state.resources), x, z, maxDist, filter),
+    checkCollision,
+    hitNode: (id) => hitNode(id, true),
+    placeRig: (bot, position) => {
+      set({ structures: [...state.structures, newStructure(ItemType.MINING_RIG, position, random() * Math.PI * 2, bot.id)] });
+      navigator.invalidate();
+      addLog(`${bot.name} placed a Mining Rig!`);
+    },
+    addLog,
+    getStructures: () => state.structures,
+    getPlayerPos: () => [playerPos[0], playerPos[1], playerPos[2]],
+    isPlayerDead: () => isPlayerDead(state),
+    attackPlayer: (bot) => damagePlayer(BOT_ATTACK_DAMAGE, `${bot.name} attacked you`),
+    attackStructure: (bot, structureId) => {
+      const wrecked = damageStructure(structureId, BOT_STRUCTURE_DAMAGE);
+      if (wrecked) addLog(`${bot.name} smashed your ${itemName(wrecked.type)}!`);
+    },
+    reclaimRig: (bot, structureId) => {
+      set({ structures: state.structures.map(s => s.id === structureId ? { ...s, ownerId: bot.id } : s) });
+      addLog(`${bot.name} re-hacked a Mining Rig!`);
+    },
+    navigate: navigator.headingFor
+  };
+
+  const runAI = () => {
+    if (state.aiPlayers.length === 0) return;
+    // Bots see each other's positions from the start of this step
+    const bots = state.aiPlayers.map(bot => updateBot(bot, botContext, AI_INTERVAL));
+    set({ aiPlayers: bots });
+  };
+
+  // Only the head of the queue is worked on, like a single fabricator
+  const runCrafting = () => {
+    const [job, ...rest] = state.craftQueue;
+    if (!job) return;
+
+    const recipe = findRecipe(job.output);
+    if (!recipe) {
+      set({ craftQueue: rest });
+      return;
+    }
+
+    // A chained job collects what earlier jobs made before it starts
+    if (job.awaiting) {
+      const short = job.awaiting.find(a => (state.inventory[a.item] || 0) < a.count);
+      if (short) {
+        addLog(`${itemName(job.output)} halted: ${itemName(short.item)} was used elsewhere.`);
+        cancelCraft(job.id);
+        return;
+      }
+      const { awaiting, ...started } = job;
+      const newInv = { ...state.inventory };
+      awaiting.forEach(a => {
+        newInv[a.item] -= a.count;
+      });
+      set({ inventory: newInv, craftQueue: [started, ...rest] });
+      return;
+    }
+
+    const progress = job.progress + FIXED_STEP;
+    if (progress < recipe.craftTime) {
+      set({ craftQueue: [{ ...job, progress }, ...rest] });
+      return;
+    }
+
+    const remaining = job.quantity - 1;
+    set({
+      inventory: { ...state.inventory, [recipe.output]: (state.inventory[recipe.output] || 0) + recipe.count },
+      craftQueue: remaining > 0 ? [{ ...job, quantity: remaining, progress: 0 }, ...rest] : rest
+    });
+
+    addLog(`Crafted ${itemName(recipe.output)}`);
+    if (recipe.output === ItemType.MINING_RIG) {
+      addLog("TIP: Place Rig from Inventory to start mining.");
+    }
+    if (RIG_TIERS.some(tier => tier.upgrade.some(part => part.item === recipe.output))) {
+      addLog("TIP: Look at a Mining Rig and press [U] to upgrade it.");
+    }
+  };
+
+  const rollWeather = () => {
+    if (state.activeEvent !== GameEvent.NONE) return;
+
+    if (random() > 0.85) {
+      set({ activeEvent: GameEvent.ACID_RAIN });
+      const exposed = getMiningRigCount(state) - getShelteredRigCount(state);
+      addLog(exposed > 0
+        ? `WARNING: Acid Rain detected! ${exposed} exposed rig${exposed > 1 ? 's' : ''} going offline.`
+        : "WARNING: Acid Rain detected! All rigs are under cover.");
+
+      clock.schedule(ACID_RAIN_DURATION, 'acidRainEnd');
+    }
+  };
+
+  const endAcidRain = () => {
+    set({ activeEvent: GameEvent.NONE });
+    addLog("Environmental conditions normalizing.");
+  };
+
+  const advanceDay = () => {
+    const wasNight = isNight(state.timeOfDay);
+    const timeOfDay = (state.timeOfDay + DAY_INTERVAL / state.dayLength) % 1;
+    set({ timeOfDay });
+    if (isNight(timeOfDay) !== wasNight) {
+      addLog(wasNight ? "Sunrise. Solar panels back online." : "Night falls. Solar panels are idle, bots are turning in.");
+    }
+  };
+
+  // --- Power ---
+  // Generators on a grid with rigs to feed burn through their fuel slot
+  const runPower = () => {
+    const { gridOf } = getPowerStatus(state);
+    let changed = false;
+    let emptied = 0;
+    const structures = state.structures.map(s => {
+      const def = POWER_DATA[s.type];
+      if (!def?.fuel || !hasFuel(s) || !(gridOf.get(s.id)?.demand)) return s;
+      let fuel = s.fuel ?? 0;
+      let burnLeft = s.burnLeft ?? 0;
+      if (burnLeft <= 0) {
+        fuel--;
+        burnLeft = def.burnTime ?? 0;
+      }
+      burnLeft = Math.max(0, burnLeft - POWER_INTERVAL);
+      changed = true;
+      if (fuel <= 0 && burnLeft <= 0) emptied++;
+      return { ...s, fuel, burnLeft };
+    });
+    if (!changed) return;
+    set({ structures });
+    if (emptied > 0) addLog(`${itemName(ItemType.COAL_GENERATOR)} out of fuel! Press [F] on it to load Coal.`);
+  };
+
+  // Moves fuel from the inventory into a generator's slot
+  const fuelStructure = (id: string) => {
+    const struct = state.structures.find(s => s.id === id);
+    const def = struct && POWER_DATA[struct.type];
+    if (!struct || !def?.fuel) return;
+    if (struct.ownerId) {
+      addLog("Access Denied. Press 'C' to Hack/Claim first.");
+      return;
+    }
+
+    const loaded = struct.fuel ?? 0;
+    const space = (def.fuelSlot ?? 0) - loaded;
+    const count = Math.min(space, state.inventory[def.fuel] || 0);
+    if (space <= 0) {
+      addLog(`Fuel slot full (${loaded}/${def.fuelSlot} ${itemName(def.fuel)}).`);
+      return;
+    }
+    if (count <= 0) {
+      addLog(`No ${itemName(def.fuel)} to load.`);
+      return;
+    }
+
+    set({
+      inventory: { ...state.inventory, [def.fuel]: state.inventory[def.fuel] - count },
+      structures: state.structures.map(s => s.id === id ? { ...s, fuel: loaded + count } : s)
+    });
+    addLog(`Loaded ${count}x ${itemName(def.fuel)} (${loaded + count}/${def.fuelSlot}).`);
+  };
+
+  // Fuel still in the slot and fitted upgrade parts go back to whoever packs the structure up
+  const refundContents = (struct: Structure) => {
+    const fuelItem = POWER_DATA[struct.type]?.fuel;
+    if (fuelItem && struct.fuel) addToInventory(fuelItem, struct.fuel);
+    fittedParts(struct).forEach(part => addToInventory(part.item, part.count));
+  };
+
+  // --- Thermals ---
+  const runThermal = () => {
+    const rigs = state.structures.filter(s => s.type === ItemType.MINING_RIG);
+    if (rigs.length === 0) return;
+    const status = getPowerStatus(state);
+    const hash = index.structures(state.structures);
+    const work = networkLoad(state);
+    const heatOf = (rig: Structure) => work * rigWork(state, rig) * rigTier(rig).heat;
+
+    // A powered cooler's capacity is split evenly between the rigs it reaches
+    const cooling = new Map<string, number>();
+    state.structures.forEach(cooler => {
+      const def = COOLER_DATA[cooler.type];
+      if (!def || !isPowered(status, cooler)) return;
+      const reached = hash.query(cooler.position[0], cooler.position[2], def.range).filter(s => s.type === ItemType.MINING_RIG);
+      reached.forEach(rig => cooling.set(rig.id, (cooling.get(rig.id) ?? 0) + def.cooling / reached.length));
+    });
+
+    let tripped = 0;
+    const updated = new Map(rigs.map(rig => {
+      const [x, , z] = rig.position;
+      const neighbourHeat = hash.query(x, z, NEIGHBOUR_RADIUS)
+        .reduce((sum, s) => s.id !== rig.id && s.type === ItemType.MINING_RIG ? sum + heatOf(s) : sum, 0);
+      const next = stepRigHeat(rig, {
+        ambient: ambientTemperature(terrain, x, z, state.timeOfDay),
+        heat: heatOf(rig),
+        neighbourHeat,
+        cooling: cooling.get(rig.id) ?? 0
+      }, THERMAL_INTERVAL);
+      if (next.overheated && !rig.overheated && !rig.ownerId) tripped++;
+      return [rig.id, next] as const;
+    }));
+
+    set({ structures: state.structures.map(s => updated.get(s.id) ?? s) });
+    if (tripped > 0) addLog(`WARNING: ${tripped} rig${tripped > 1 ? 's' : ''} overheated and shut down! Build coolers or spread them out.`);
+  };
+
+  // --- Corrosion ---
+  // Acid rain eats into rigs without a roof above them until they fall apart, leaving nothing
+  const runCorrosion = () => {
+    if (state.activeEvent !== GameEvent.ACID_RAIN) return;
+    const shelter = getRigShelter(state);
+    let changed = false;
+    let lost = 0;
+    const structures = state.structures.flatMap(s => {
+      if (s.type !== ItemType.MINING_RIG) return [s];
+      const rate = corrosionRate(shelter.get(s.id) ?? 'EXPOSED');
+      if (rate === 0) return [s];
+      changed = true;
+      const health = s.health - rate * s.maxHealth * CORROSION_INTERVAL;
+      if (health > 0) return [{ ...s, health }];
+      if (!s.ownerId) lost++;
+      return [];
+    });
+    if (!changed) return;
+
+    const removed = structures.length !== state.structures.length;
+    set({ structures });
+    if (removed) navigator.invalidate();
+    if (lost > 0) addLog(`${lost} Mining Rig${lost > 1 ? 's' : ''} corroded through and fell apart! Build roofs over your rigs.`);
+  };
+
+  const setDayLength = (seconds: number) => {
+    if (seconds <= 0) return;
+    set({ dayLength: seconds });
+  };
+
+  const refreshMarket = () => {
+    if (!options.fetchMarketNews) return;
+    options.fetchMarketNews(state.marketModifier)
+      .then(news => {
+        set({ marketHeadline: news.headline, marketModifier: news.modifier });
+        if (state.activeEvent === GameEvent.NONE) {
+          addLog(`MARKET: ${news.headline}`);
+        }
+      })
+      .catch(error => console.error("Market Feed Error:", error));
+  };
+
+  // --- Scheduling ---
+  clock.every(MINING_INTERVAL, runMining);
+  clock.every(AI_INTERVAL, runAI);
+  clock.every(FIXED_STEP, runCrafting);
+  clock.every(VITALS_INTERVAL, runVitals);
+  clock.every(EVENT_INTERVAL, rollWeather);
+  clock.every(CHUNK_INTERVAL, streamChunks);
+  clock.every(DAY_INTERVAL, advanceDay);
+  clock.every(POWER_INTERVAL, runPower);
+  clock.every(THERMAL_INTERVAL, runThermal);
+  clock.every(CORROSION_INTERVAL, runCorrosion);
+  // First market fetch on the very first step, then every interval
+  clock.every(MARKET_INTERVAL, refreshMarket, FIXED_STEP);
+
+  clock.on('adStart', ({ reason }) => triggerAd(String(reason)));
+  clock.on('adEnd', closeAdDeal);
+  clock.on('acidRainEnd', endAcidRain);
+  clock.on('nodeRespawn', ({ id }) => respawnNode(String(id)));
+  clock.on('nodeRegrow', ({ id }) => regrowNode(String(id)));
+  clock.on('nodeReplenish', ({ id }) => replenishNode(String(id)));
+  clock.on('botRespawn', respawnBot);
+
+  const setPaused = (paused: boolean) => {
+    clock.setPaused(paused);
+    set({ paused });
+  };
+
+  const setTimeScale = (timeScale: number) => {
+    clock.setTimeScale(timeScale);
+    set({ timeScale: clock.getTimeScale() });
+  };
+
+  // --- World Lifecycle ---
+  const snapshot = (): WorldSnapshot => ({
+    seed: state.seed,
+    botSpawns: state.botSpawns,
+    inventory: state.inventory,
+    money: state.money,
+    globalPot: state.globalPot,
+    ownerBalance: state.ownerBalance,
+    resources: state.resources,
+    loadedChunks: state.loadedChunks,
+    storedChunks,
+    structures: state.structures,
+    aiPlayers: state.aiPlayers,
+    craftQueue: state.craftQueue,
+    playerPos: [...playerPos],
+    playerHealth: state.playerHealth,
+    playerBreath: state.playerBreath,
+    // Sponsor breaks are session-only, a save never resumes mid-ad
+    activeEvent: state.activeEvent === GameEvent.AD_BREAK ? GameEvent.NONE : state.activeEvent,
+    timeOfDay: state.timeOfDay,
+    dayLength: state.dayLength,
+    timers: clock.saveTimers('world')
+  });
+
+  const loadWorld = (world: WorldSnapshot) => {
+    terrain = createTerrain(world.seed);
+    random = seedRandom(world.seed);
+    clock.clearTimers('world');
+    clock.restoreTimers(world.timers, 'world');
+    playerPos = [...world.playerPos];
+    storedChunks = { ...world.storedChunks };
+    navigator.invalidate();
+
+    set({
+      epoch: state.epoch + 1,
+      seed: world.seed,
+      botSpawns: world.botSpawns,
+      inventory: world.inventory,
+      money: world.money,
+      globalPot: world.globalPot,
+      ownerBalance: world.ownerBalance,
+      resources: world.resources.map(groundNode),
+      loadedChunks: world.loadedChunks,
+      structures: world.structures,
+      aiPlayers: world.aiPlayers,
+      craftQueue: world.craftQueue,
+      playerHealth: world.playerHealth,
+      playerBreath: world.playerBreath,
+      // A running sponsor break belongs to the session and keeps going
+      activeEvent: state.activeEvent === GameEvent.AD_BREAK ? GameEvent.AD_BREAK : world.activeEvent,
+      timeOfDay: world.timeOfDay,
+      dayLength: world.dayLength
+    });
+
+    // Saves from before timers were persisted have harvested nodes with nothing to bring them back
+    rearmRegrowth(state.resources);
+    if (world.activeEvent === GameEvent.ACID_RAIN && clock.pending('acidRainEnd').length === 0) {
+      clock.schedule(ACID_RAIN_DURATION, 'acidRainEnd');
+    }
+    streamChunks();
+  };
+
+  const newWorld = (seed: string) => {
+    terrain = createTerrain(seed);
+    random = seedRandom(seed);
+    const rng = createRng(seed);
+    const initChunks = chunksAround(DEFAULT_PLAYER_POS[0], DEFAULT_PLAYER_POS[2]);
+    const initResources = initChunks.flatMap(key => generateChunk(terrain, key));
+    const initBots: AIPlayer[] = generateAIPlayers(terrain, 5, initResources, rng);
+    loadWorld({
+      seed,
+      botSpawns: initBots.length,
+      inventory: { [ItemType.STONE]: 0 },
+      money: 0,
+      globalPot: STARTING_POT,
+      ownerBalance: 0,
+      resources: initResources,
+      loadedChunks: initChunks,
+      storedChunks: {},
+      structures: [],
+      aiPlayers: initBots,
+      craftQueue: [],
+      playerPos: DEFAULT_PLAYER_POS,
+      playerHealth: PLAYER_MAX_HEALTH,
+      playerBreath: PLAYER_MAX_BREATH,
+      activeEvent: GameEvent.NONE,
+      timeOfDay: MORNING,
+      // Cycle speed is a player preference, so it carries over
+      dayLength: state.dayLength,
+      timers: []
+    });
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    tick: clock.advance,
+    setPaused,
+    setTimeScale,
+    setDayLength,
+    getPlayerPos: () => playerPos,
+    setPlayerPos: (pos) => { playerPos = pos; },
+    getTerrain: () => terrain,
+    snapshot,
+    loadWorld,
+    newWorld,
+    addLog,
+    addToInventory,
+    dropItem,
+    craft,
+    craftChain,
+    cancelCraft,
+    snapPlacement,
+    checkPlacement,
+    placeStructure,
+    checkBlueprint,
+    placeBlueprint,
+    pickupStructure,
+    claimStructure,
+    fuelStructure,
+    upgradeStructure,
+    repairStructure,
+    hitStructure,
+    updateResource,
+    destroyNode,
+    hitNode,
+    hitPlayer,
+    checkCollision,
+    triggerAd,
+    applyFallDamage,
+    handleDeath,
+    respawnPlayer,
+    cashOut,
+    getPowerStatus,
+    getPoweredRigCount,
+    getRigShelter,
+    getShelteredRigCount,
+    getStability,
+    getMiningRate,
+    getActiveRigs
+  };
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIAction, AIPlayer, ItemType, Structure } from '../types';
+import { BotContext, provokeBot, updateBot } from './ai';
+import { createTerrain } from './terrain';
+
+const bot = (overrides: Partial<AIPlayer> = {}): AIPlayer => ({
+  id: 'bot-0',
+  name: 'Bot',
+  position: [0, 0, 0],
+  rotation: 0,
+  action: AIAction.IDLE,
+  targetNodeId: null,
+  color: '#ffffff',
+  inventory: {},
+  health: 100,
+  maxHealth: 100,
+  aggression: 1,
+  targetStructureId: null,
+  actionTimer: 0,
+  ...overrides
+});
+
+const rig = (ownerId: string | undefined, position: [number, number, number]): Structure => ({
+  id: 'rig-0', type: ItemType.MINING_RIG, position, rotation: 0, ownerId, health: 100, maxHealth: 100
+});
+
+const TERRAIN = createTerrain('ai-test');
+
+// A daylit, empty world with the player standing at `player`
+const context = (player: [number, number, number], overrides: Partial<BotContext> = {}): BotContext => ({
+  random: () => 0.5,
+  getTerrain: () => TERRAIN,
+  daylight: () => 1,
+  getNode: () => undefined,
+  findNearestNode: () => undefined,
+  checkCollision: () => false,
+  hitNode: vi.fn(),
+  placeRig: vi.fn(),
+  addLog: vi.fn(),
+  getStructures: () => [],
+  getPlayerPos: () => player,
+  isPlayerDead: () => false,
+  attackPlayer: vi.fn(),
+  attackStructure: vi.fn(),
+  reclaimRig: vi.fn(),
+  navigate: (_id, x, z, tx, tz) => Math.atan2(tx - x, tz - z),
+  ...overrides
+});
+
+describe('bot combat', () => {
+  it('fights back when brave enough and runs otherwise', () => {
+    expect(provokeBot(bot({ aggression: 0.8 }), () => 0.5).action).toBe(AIAction.ATTACKING);
+    expect(provokeBot(bot({ aggression: 0.2 }), () => 0.5).action).toBe(AIAction.FLEEING);
+    expect(provokeBot(bot({ aggression: 1, health: 10 }), () => 0).action).toBe(AIAction.FLEEING);
+  });
+
+  it('swings at a player in range, then waits out the cooldown', () => {
+    const ctx = context([0, 0, 1]);
+    const swung = updateBot(bot({ action: AIAction.ATTACKING }), ctx, 0.1);
+    expect(ctx.attackPlayer).toHaveBeenCalledTimes(1);
+    expect(swung.actionTimer).toBeGreaterThan(0);
+
+    updateBot(swung, ctx, 0.1);
+    expect(ctx.attackPlayer).toHaveBeenCalledTimes(1);
+  });
+
+  it('chases a player out of reach', () => {
+    const ctx = context([0, 0, 10]);
+    const chasing = updateBot(bot({ action: AIAction.ATTACKING }), ctx, 0.5);
+    expect(chasing.action).toBe(AIAction.ATTACKING);
+    expect(chasing.position[2]).toBeGreaterThan(0);
+    expect(ctx.attackPlayer).not.toHaveBeenCalled();
+  });
+
+  it('knocks down a wall when there is no path to the player', () => {
+    const wall: Structure = { id: 'wall-0', type: ItemType.WALL, position: [0, 0, 2], rotation: 0, health: 100, maxHealth: 100 };
+    const ctx = context([0, 0, 10], { navigate: () => null, getStructures: () => [wall] });
+    updateBot(bot({ action: AIAction.ATTACKING }), ctx, 0.1);
+    expect(ctx.attackStructure).toHaveBeenCalledWith(expect.objectContaining({ id: 'bot-0' }), 'wall-0');
+  });
+
+  it('gives up on a dead or distant player', () => {
+    expect(updateBot(bot({ action: AIAction.ATTACKING }), context([0, 0, 1], { isPlayerDead: () => true }), 0.1).action).toBe(AIAction.IDLE);
+    expect(updateBot(bot({ action: AIAction.ATTACKING }), context([0, 0, 100]), 0.1).action).toBe(AIAction.IDLE);
+  });
+
+  it('breaks off a fight when badly hurt and calms down once safe', () => {
+    const fleeing = updateBot(bot({ action: AIAction.ATTACKING, health: 10 }), context([0, 0, 1]), 0.1);
+    expect(fleeing.action).toBe(AIAction.FLEEING);
+    expect(fleeing.position[2]).toBeLessThan(0);
+
+    expect(updateBot(fleeing, context([0, 0, 50]), 0.1).action).toBe(AIAction.IDLE);
+  });
+
+  it('goes to guard a rig the player is prowling around', () => {
+    const mine = rig('bot-0', [5, 0, 0]);
+    const guarding = updateBot(bot(), context([6, 0, 0], { getStructures: () => [mine] }), 0.1);
+    expect(guarding.action).toBe(AIAction.DEFENDING);
+    expect(guarding.targetStructureId).toBe(mine.id);
+
+    // A brave guard turns on the intruder, a timid one only stands watch
+    expect(updateBot(guarding, context([6, 0, 0], { getStructures: () => [mine] }), 0.1).action).toBe(AIAction.ATTACKING);
+    const timid = { ...guarding, aggression: 0.4, position: [5, 0, 1] as [number, number, number] };
+    expect(updateBot(timid, context([6, 0, 0], { getStructures: () => [mine] }), 0.1).action).toBe(AIAction.DEFENDING);
+  });
+
+  it('re-hacks a stolen rig after standing at it long enough', () => {
+    const stolen = rig(undefined, [0, 0, 1]);
+    const ctx = context([50, 0, 50], { getStructures: () => [stolen] });
+    let guard = bot({ action: AIAction.DEFENDING, targetStructureId: stolen.id, aggression: 0.4 });
+    for (let i = 0; i < 4; i++) guard = updateBot(guard, ctx, 1);
+    expect(ctx.reclaimRig).not.toHaveBeenCalled();
+
+    guard = updateBot(guard, ctx, 1);
+    expect(ctx.reclaimRig).toHaveBeenCalledWith(expect.objectContaining({ id: 'bot-0' }), stolen.id);
+    expect(guard.action).toBe(AIAction.IDLE);
+  });
+});
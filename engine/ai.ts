@@ -0,0 +1,326 @@
+import { AIPlayer, AIAction, ItemType, ResourceNodeData, Structure } from '../types';
+import { Terrain } from './terrain';
+import { applyPlan, planCraft } from './crafting';
+
+const BOT_SPEED = 4.0; // m/s
+const BOT_REGEN = 1; // hp/s outside of combat
+const MINING_RANGE = 2.0;
+
+// Combat tuning
+const ATTACK_RANGE = 2.0;
+const ATTACK_COOLDOWN = 1.5; // s between swings
+const FLEE_SPEED = BOT_SPEED * 1.3;
+const SAFE_DISTANCE = 25; // Fleeing bots calm down this far from the player
+const GIVE_UP_DISTANCE = 30; // Attackers lose interest beyond this
+const GUARD_RADIUS = 8; // Player this close to a bot's rig counts as an intruder
+const ALERT_DISTANCE = 40; // Bots only notice intruders at rigs this close to them
+const GUARD_AGGRESSION = 0.3; // Least aggression that makes a bot guard its rigs
+const ENGAGE_AGGRESSION = 0.5; // Least aggression that makes a guard attack intruders
+const GUARD_TIME = 10; // s a guard stays once the area is quiet
+const REHACK_TIME = 5; // s at a stolen rig to take it back
+const BARRIER_REACH = 3; // m to a structure standing between an attacker and the player
+
+// Night tuning, as a share of the daytime value at midnight
+const NIGHT_ACTIVITY = 0.5; // Walking and mining pace while gathering
+const NIGHT_SIGHT = 0.5; // How far bots notice and keep track of the player
+
+const COMBAT_ACTIONS = new Set([AIAction.FLEEING, AIAction.ATTACKING, AIAction.DEFENDING]);
+
+// Which node a bot harvests for each raw material
+const RAW_SOURCES: Partial<Record<ItemType, ResourceNodeData['type']>> = {
+  [ItemType.COAL]: 'COAL',
+  [ItemType.RESIN]: 'TREE',
+  [ItemType.STONE]: 'STONE',
+  [ItemType.METAL_ORE]: 'METAL',
+  [ItemType.COPPER_ORE]: 'COPPER',
+  [ItemType.SCRAP]: 'JUNK'
+};
+
+// What a bot may read and do in the world. Provided by the engine.
+export interface BotContext {
+  random: () => number;
+  getTerrain: () => Terrain;
+  daylight: () => number; // 1 at day, 0 at night, see daycycle.ts
+  getNode: (id: string) => ResourceNodeData | undefined;
+  // Closest standing (non-loose) node within maxDist that passes the filter
+  findNearestNode: (x: number, z: number, maxDist: number, filter?: (node: ResourceNodeData) => boolean) => ResourceNodeData | undefined;
+  checkCollision: (x: number, z: number, ignoreId?: string) => boolean;
+  hitNode: (id: string) => void;
+  placeRig: (bot: AIPlayer, position: [number, number, number]) => void;
+  addLog: (msg: string) => void;
+  getStructures: () => Structure[];
+  getPlayerPos: () => [number, number, number];
+  isPlayerDead: () => boolean;
+  attackPlayer: (bot: AIPlayer) => void;
+  attackStructure: (bot: AIPlayer, structureId: string) => void;
+  reclaimRig: (bot: AIPlayer, structureId: string) => void;
+  // Path-following heading towards (tx, tz), null when the grid has no way there
+  navigate: (botId: string, x: number, z: number, tx: number, tz: number, reach: number) => number | null;
+}
+
+const distance2D = (ax: number, az: number, bx: number, bz: number) => Math.sqrt(Math.pow(ax - bx, 2) + Math.pow(az - bz, 2));
+
+// Scales a daytime value down towards its night share as it gets dark
+const byDaylight = (ctx: BotContext, nightShare: number) => nightShare + (1 - nightShare) * ctx.daylight();
+
+// Braver bots hold out longer: 50% health at aggression 0, 20% at aggression 1
+const fleeThreshold = (bot: AIPlayer) => 0.5 - 0.3 * bot.aggression;
+
+// One step along `rotation`, sliding along obstacles. Null when boxed in.
+const step = (ctx: BotContext, id: string, x: number, z: number, rotation: number, dist: number): [number, number] | null => {
+  const nextX = x + Math.sin(rotation) * dist;
+  const nextZ = z + Math.cos(rotation) * dist;
+
+  // Bots can't swim, so deep water blocks them like any obstacle
+  const blocked = (px: number, pz: number) => ctx.checkCollision(px, pz, id) || ctx.getTerrain().isDeepWater(px, pz);
+
+  // Check Collision before moving. A bot already overlapping something (e.g. the rig it just
+  // dropped at its feet, or water it was knocked into) may walk out of it.
+  if (!blocked(nextX, nextZ) || blocked(x, z)) return [nextX, nextZ];
+  // Simple Obstacle Avoidance / Sliding
+  if (!blocked(nextX, z)) return [nextX, z];
+  if (!blocked(x, nextZ)) return [x, nextZ];
+  return null;
+};
+
+// How a bot reacts to the player hitting it
+export const provokeBot = (bot: AIPlayer, random: () => number): AIPlayer => {
+  const fights = bot.health / bot.maxHealth >= fleeThreshold(bot) && random() < bot.aggression;
+  return { ...bot, action: fights ? AIAction.ATTACKING : AIAction.FLEEING, targetNodeId: null, actionTimer: 0 };
+};
+
+// Sends a bot back to a rig the player claimed from it or is smashing up, unless it is running for its life
+export const alertStolenRig = (bot: AIPlayer, structureId: string): AIPlayer => {
+  if (bot.action === AIAction.FLEEING) return bot;
+  return { ...bot, action: AIAction.DEFENDING, targetStructureId: structureId, targetNodeId: null, actionTimer: 0 };
+};
+
+// Closest of the player's structures within swinging distance
+const findBarrier = (ctx: BotContext, x: number, z: number): Structure | undefined => {
+  let best: Structure | undefined;
+  let bestDist = BARRIER_REACH;
+  ctx.getStructures().forEach(s => {
+    const dist = distance2D(x, z, s.position[0], s.position[2]);
+    if (!s.ownerId && dist < bestDist) {
+      best = s;
+      bestDist = dist;
+    }
+  });
+  return best;
+};
+
+// Fleeing, attacking and guarding. Runs instead of gathering while a fight is on.
+const updateCombat = (bot: AIPlayer, ctx: BotContext, dt: number): AIPlayer => {
+  let { action, rotation, targetStructureId, actionTimer } = bot;
+  let [x, y, z] = bot.position;
+  const [px, , pz] = ctx.getPlayerPos();
+  const playerDist = distance2D(x, z, px, pz);
+  const playerGone = ctx.isPlayerDead() || playerDist > GIVE_UP_DISTANCE * byDaylight(ctx, NIGHT_SIGHT);
+
+  // Low health overrides everything
+  if (action !== AIAction.FLEEING && bot.health / bot.maxHealth < fleeThreshold(bot)) {
+    action = AIAction.FLEEING;
+  }
+
+  let heading: number | null = null;
+  let speed = BOT_SPEED;
+
+  if (action === AIAction.FLEEING) {
+    if (playerGone || playerDist > SAFE_DISTANCE) {
+      action = AIAction.IDLE;
+    } else {
+      heading = Math.atan2(x - px, z - pz);
+      speed = FLEE_SPEED;
+    }
+  } else if (action === AIAction.ATTACKING) {
+    actionTimer = Math.max(0, actionTimer - dt);
+    if (playerGone) {
+      action = AIAction.IDLE;
+    } else if (playerDist > ATTACK_RANGE) {
+      const path = ctx.navigate(bot.id, x, z, px, pz, ATTACK_RANGE);
+      // A player walled in gets the walls knocked down around them
+      const barrier = path === null ? findBarrier(ctx, x, z) : undefined;
+      if (barrier) {
+        rotation = Math.atan2(barrier.position[0] - x, barrier.position[2] - z);
+        if (actionTimer <= 0) {
+          ctx.attackStructure(bot, barrier.id);
+          actionTimer = ATTACK_COOLDOWN;
+        }
+      } else {
+        heading = path ?? Math.atan2(px - x, pz - z);
+      }
+    } else {
+      rotation = Math.atan2(px - x, pz - z);
+      if (actionTimer <= 0) {
+        ctx.attackPlayer(bot);
+        actionTimer = ATTACK_COOLDOWN;
+      }
+    }
+  } else if (action === AIAction.DEFENDING) {
+    const rig = ctx.getStructures().find(s => s.id === targetStructureId);
+    const intruder = rig && !ctx.isPlayerDead() && distance2D(px, pz, rig.position[0], rig.position[2]) < GUARD_RADIUS;
+
+    if (!rig) {
+      action = AIAction.IDLE;
+    } else if (intruder && bot.aggression >= ENGAGE_AGGRESSION) {
+      action = AIAction.ATTACKING;
+      actionTimer = 0;
+    } else if (distance2D(x, z, rig.position[0], rig.position[2]) > ATTACK_RANGE) {
+      const [rx, , rz] = rig.position;
+      heading = ctx.navigate(bot.id, x, z, rx, rz, ATTACK_RANGE) ?? Math.atan2(rx - x, rz - z);
+    } else if (rig.ownerId === bot.id) {
+      // Guard duty: stay put until the area has been quiet for a while
+      actionTimer = intruder ? 0 : actionTimer + dt;
+      if (actionTimer >= GUARD_TIME) action = AIAction.IDLE;
+    } else {
+      actionTimer += dt;
+      if (actionTimer >= REHACK_TIME) {
+        ctx.reclaimRig(bot, rig.id);
+        action = AIAction.IDLE;
+      }
+    }
+  }
+
+  if (heading !== null) {
+    rotation = heading;
+    const next = step(ctx, bot.id, x, z, rotation, speed * dt);
+    if (next) [x, z] = next;
+    y = ctx.getTerrain().height(x, z);
+  }
+
+  if (action === AIAction.IDLE) {
+    targetStructureId = null;
+    actionTimer = 0;
+  }
+  return { ...bot, position: [x, y, z], rotation, action, targetStructureId, actionTimer };
+};
+
+// A rig of this bot with the player prowling around it, if the bot is close enough to care
+const findThreatenedRig = (bot: AIPlayer, ctx: BotContext): Structure | undefined => {
+  if (bot.aggression < GUARD_AGGRESSION || ctx.isPlayerDead()) return undefined;
+  const [px, , pz] = ctx.getPlayerPos();
+  const [x, , z] = bot.position;
+  return ctx.getStructures().find(s => s.ownerId === bot.id &&
+    distance2D(px, pz, s.position[0], s.position[2]) < GUARD_RADIUS &&
+    distance2D(x, z, s.position[0], s.position[2]) < ALERT_DISTANCE * byDaylight(ctx, NIGHT_SIGHT));
+};
+
+// Advance one bot by dt seconds: fight, or craft, build, pick a target, walk and mine
+export const updateBot = (bot: AIPlayer, ctx: BotContext, dt: number): AIPlayer => {
+  if (COMBAT_ACTIONS.has(bot.action)) return updateCombat(bot, ctx, dt);
+
+  const threatened = findThreatenedRig(bot, ctx);
+  if (threatened) {
+    return { ...bot, action: AIAction.DEFENDING, targetStructureId: threatened.id, targetNodeId: null, actionTimer: 0 };
+  }
+
+  let { id, position, action, targetNodeId, rotation } = bot;
+  let [x, y, z] = position;
+  let botInv = { ...bot.inventory };
+  // Bots slow down after dark
+  const activity = byDaylight(ctx, NIGHT_ACTIVITY);
+
+  // 1. Crafting: same planner as the player's fabricator, but instant
+  const plan = planCraft(ItemType.MINING_RIG, 1, botInv);
+  if (plan.missing.length === 0) {
+    botInv = applyPlan(plan, botInv);
+    ctx.addLog(`${bot.name} crafted a Mining Rig!`);
+  }
+
+  // 2. Building Logic
+  if ((botInv[ItemType.MINING_RIG] || 0) > 0) {
+     action = AIAction.MOVING;
+     // Just place it where they stand - Increased chance to 0.2 for faster placement
+     if (ctx.random() < 0.2) {
+        ctx.placeRig(bot, [x, y, z]);
+        botInv[ItemType.MINING_RIG]--;
+     }
+  }
+
+  // 3. Movement / Mining FSM
+  if (action === AIAction.IDLE || (action === AIAction.MINING && !targetNodeId)) {
+     // Smart Targeting: gather whatever the rig plan is short of
+     const neededType = plan.missing.map(m => RAW_SOURCES[m.item]).find(Boolean) ?? null;
+
+     // Prioritize needed type, but take anything if close
+     const reachable = (r: ResourceNodeData) => !ctx.getTerrain().isDeepWater(r.position[0], r.position[2]);
+     const nearest = ctx.findNearestNode(x, z, 50, r => reachable(r) && (!neededType || r.type === neededType));
+
+     // Fallback if specific resource not found nearby
+     const fallbackNearest = !nearest ? ctx.findNearestNode(x, z, 30, reachable) : null;
+
+     const target = nearest || fallbackNearest;
+
+     if (target) {
+       targetNodeId = target.id;
+       action = AIAction.MOVING;
+     } else {
+       action = AIAction.MOVING;
+       // Random walk
+       rotation = ctx.random() * Math.PI * 2;
+     }
+  }
+
+  if (action === AIAction.MOVING) {
+     let tx = x, tz = z;
+     let move = true;
+
+     if (targetNodeId) {
+       const target = ctx.getNode(targetNodeId);
+       if (!target || target.health <= 0) {
+         targetNodeId = null;
+         action = AIAction.IDLE;
+         move = false;
+       } else {
+         tx = target.position[0];
+         tz = target.position[2];
+
+         const dx = tx - x;
+         const dz = tz - z;
+         const dist = Math.sqrt(dx*dx + dz*dz);
+
+         if (dist < MINING_RANGE) {
+           action = AIAction.MINING;
+           move = false;
+         } else {
+           // Follow the nav grid around trees, bases and lakes; straight line if it finds no way
+           rotation = ctx.navigate(id, x, z, tx, tz, MINING_RANGE) ?? Math.atan2(dx, dz);
+         }
+       }
+     }
+
+     if (move) {
+         const next = step(ctx, id, x, z, rotation, BOT_SPEED * activity * dt);
+         if (next) {
+            [x, z] = next;
+         } else {
+            // Stuck? Rotate randomly
+            rotation += Math.PI / 2;
+            action = AIAction.IDLE;
+         }
+         y = ctx.getTerrain().height(x, z);
+     }
+  }
+
+  if (action === AIAction.MINING) {
+     if (targetNodeId) {
+       const target = ctx.getNode(targetNodeId);
+       if (target && target.health > 0) {
+          if (ctx.random() < 0.2 * activity) {
+             ctx.hitNode(targetNodeId);
+             // Add to Bot Inventory
+             botInv[target.drop] = (botInv[target.drop] || 0) + 1;
+             if (target.type === 'TREE') botInv[ItemType.RESIN] = (botInv[ItemType.RESIN] || 0) + 1;
+          }
+       } else {
+          action = AIAction.IDLE;
+          targetNodeId = null;
+       }
+     } else {
+       action = AIAction.IDLE;
+     }
+  }
+
+  const health = Math.min(bot.maxHealth, bot.health + BOT_REGEN * dt);
+  return { ...bot, position: [x, y, z], rotation, action, targetNodeId, inventory: botInv, health };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { blueprintCost, captureBlueprint, missingItems, stampBlueprint } from './blueprints';
+import { createBuildSite, SITE_X as X, SITE_Z as Z } from './testUtils';
+
+const HALF_TURN = Math.PI;
+const QUARTER_TURN = Math.PI / 2;
+
+// Foundation with two walls and a roof on top, built at the test site
+const buildHut = () => {
+  const site = createBuildSite();
+  const { place, ground } = site;
+  place(ItemType.FOUNDATION, [X, ground, Z]);
+  place(ItemType.WALL, [X, ground + 0.5, Z + 1.5]);
+  place(ItemType.WALL, [X + 1.5, ground + 0.5, Z], QUARTER_TURN);
+  place(ItemType.ROOF, [X, ground + 4, Z]);
+  return site;
+};
+
+describe('blueprints', () => {
+  it('captures pieces in build order around the first foundation', () => {
+    const { engine } = buildHut();
+    const blueprint = captureBlueprint('bp', 'Hut', [...engine.getState().structures].reverse());
+    expect(blueprint.pieces.map(p => p.type)).toEqual([ItemType.FOUNDATION, ItemType.WALL, ItemType.WALL, ItemType.ROOF]);
+    expect(blueprint.pieces[0]).toEqual({ type: ItemType.FOUNDATION, offset: [0, 0, 0], rotation: 0 });
+    expect(blueprint.pieces[3].offset).toEqual([0, 4, 0]);
+  });
+
+  it('stamps pieces turned around the anchor', () => {
+    const blueprint = {
+      id: 'bp',
+      name: 'Post',
+      pieces: [
+        { type: ItemType.FOUNDATION, offset: [0, 0, 0] as [number, number, number], rotation: 0 },
+        { type: ItemType.WALL, offset: [0, 0.5, 1.5] as [number, number, number], rotation: 0 }
+      ]
+    };
+    const [anchor, wall] = stampBlueprint(blueprint, { position: [10, 2, 20], rotation: HALF_TURN });
+    expect(anchor.position).toEqual([10, 2, 20]);
+    expect(wall.position[0]).toBeCloseTo(10);
+    expect(wall.position[1]).toBeCloseTo(2.5);
+    expect(wall.position[2]).toBeCloseTo(18.5);
+    expect(wall.rotation).toBeCloseTo(HALF_TURN);
+  });
+
+  it('counts one item per piece and what the inventory lacks', () => {
+    const cost = blueprintCost([{ type: ItemType.WALL }, { type: ItemType.WALL }, { type: ItemType.ROOF }]);
+    expect(cost).toEqual([{ item: ItemType.WALL, count: 2 }, { item: ItemType.ROOF, count: 1 }]);
+    expect(missingItems(cost, { [ItemType.WALL]: 1, [ItemType.ROOF]: 3 })).toEqual([{ item: ItemType.WALL, count: 1 }]);
+  });
+
+  it('builds a copy next door in one go, leaning pieces on those placed before them', () => {
+    const { engine, count } = buildHut();
+    const structures = engine.getState().structures;
+    const blueprint = captureBlueprint('bp', 'Hut', structures);
+    const anchor = structures.find(s => s.type === ItemType.FOUNDATION)!;
+
+    const pieces = stampBlueprint(blueprint, { position: [anchor.position[0] + 3, anchor.position[1], anchor.position[2]], rotation: 0 });
+    expect(engine.checkBlueprint(pieces)).toEqual([null, null, null, null]);
+    expect(engine.placeBlueprint('Hut', pieces)).toBe(true);
+    expect(count(ItemType.WALL)).toBe(4);
+    expect(engine.getState().inventory[ItemType.WALL]).toBe(16);
+  });
+
+  it('builds none of it when a piece is in the way', () => {
+    const { engine } = buildHut();
+    const structures = engine.getState().structures;
+    const pieces = stampBlueprint(captureBlueprint('bp', 'Hut', structures), { position: structures[0].position, rotation: 0 });
+    expect(engine.placeBlueprint('Hut', pieces)).toBe(false);
+    expect(engine.getState().structures).toBe(structures);
+    expect(engine.getState().logs[0]).toBe("Can't place Stone Foundation of Hut: overlaps a Stone Foundation.");
+  });
+
+  it('names the items missing for a copy', () => {
+    const { engine } = buildHut();
+    const pieces = stampBlueprint(captureBlueprint('bp', 'Hut', engine.getState().structures), { position: [X + 30, 0, Z], rotation: 0 });
+    engine.addToInventory(ItemType.WALL, -17);
+    expect(engine.placeBlueprint('Hut', pieces)).toBe(false);
+    expect(engine.getState().logs[0]).toBe('Hut needs 1x Wooden Wall more');
+  });
+
+  it('refuses pieces that are not structures', () => {
+    const { engine, ground } = createBuildSite();
+    engine.addToInventory(ItemType.COAL, 5);
+    const pieces = [{ type: ItemType.COAL, position: [X, ground, Z] as [number, number, number], rotation: 0 }];
+    expect(engine.checkBlueprint(pieces)).toEqual(["isn't a building piece"]);
+    expect(engine.placeBlueprint('Coal Pile', pieces)).toBe(false);
+    expect(engine.getState().inventory[ItemType.COAL]).toBe(5);
+  });
+});
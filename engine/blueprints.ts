@@ -0,0 +1,81 @@
+import { Blueprint, ItemStack, ItemType, ResourceNodeData, Structure } from '../types';
+import { createSpatialHash, SpatialHash } from './spatial';
+import { rotate, structureDef, Piece, Placement } from './building';
+import { buildProblem, isBuildingPiece, stabilityAt } from './stability';
+import { isStructureItem } from './registry';
+import { Terrain } from './terrain';
+
+// --- Blueprints ---
+// A blueprint keeps a group of pieces relative to one of them, its anchor. Stamping it down puts
+// the anchor where the player aims and turns the rest around it. Pieces are kept in build order,
+// so each one can lean on those placed before it.
+
+const QUARTER_TURN = Math.PI / 2;
+
+// Foundations go down first, then everything else from the bottom up
+const buildOrder = (a: Piece, b: Piece): number =>
+  Number(!structureDef(a.type).grounded) - Number(!structureDef(b.type).grounded) || a.position[1] - b.position[1];
+
+// Pieces only ever turn in quarter steps; keeps float noise out of saved blueprints
+const quarterTurns = (angle: number): number => ((Math.round(angle / QUARTER_TURN) % 4 + 4) % 4) * QUARTER_TURN;
+const tidy = (m: number): number => Math.round(m * 1000) / 1000;
+
+export const captureBlueprint = (id: string, name: string, structures: Piece[]): Blueprint => {
+  const [anchor, ...rest] = [...structures].sort(buildOrder);
+  return {
+    id,
+    name,
+    pieces: [anchor, ...rest].map(s => {
+      const [x, z] = rotate(s.position[0] - anchor.position[0], s.position[2] - anchor.position[2], -anchor.rotation);
+      return { type: s.type, offset: [tidy(x), tidy(s.position[1] - anchor.position[1]), tidy(z)], rotation: quarterTurns(s.rotation - anchor.rotation) };
+    })
+  };
+};
+
+// The blueprint's pieces in the world, with its anchor at the placement
+export const stampBlueprint = (blueprint: Blueprint, { position, rotation }: Placement): Piece[] =>
+  blueprint.pieces.map(piece => {
+    const [x, z] = rotate(piece.offset[0], piece.offset[2], rotation);
+    return {
+      type: piece.type,
+      position: [position[0] + x, position[1] + piece.offset[1], position[2] + z],
+      rotation: rotation + piece.rotation
+    };
+  });
+
+// One of each piece's item, grouped by type
+export const blueprintCost = (pieces: { type: ItemType }[]): ItemStack[] => {
+  const counts = new Map<ItemType, number>();
+  pieces.forEach(p => counts.set(p.type, (counts.get(p.type) ?? 0) + 1));
+  return [...counts].map(([item, count]) => ({ item, count }));
+};
+
+// What the inventory is short of for a cost
+export const missingItems = (cost: ItemStack[], inventory: Record<string, number>): ItemStack[] =>
+  cost
+    .map(stack => ({ item: stack.item, count: stack.count - (inventory[stack.item] || 0) }))
+    .filter(stack => stack.count > 0);
+
+// Why each piece can't be built, null for those that can. Pieces are tried in order as if the
+// ones before them had gone up already.
+export const blueprintProblems = (
+  terrain: Terrain,
+  structures: Structure[],
+  nodes: SpatialHash<ResourceNodeData>,
+  stability: Map<string, number>,
+  pieces: Piece[]
+): (string | null)[] => {
+  const hash = createSpatialHash<Structure>(s => [s.position[0], s.position[2]]);
+  structures.forEach(s => hash.insert(s, s.position[0], s.position[2]));
+  const planned = new Map(stability);
+
+  return pieces.map((piece, i) => {
+    if (!isStructureItem(piece.type)) return "isn't a building piece";
+    const problem = buildProblem(terrain, hash, nodes, planned, piece);
+    if (problem) return problem;
+    const ghost: Structure = { ...piece, id: `planned-${i}`, health: 1, maxHealth: 1 };
+    if (isBuildingPiece(piece)) planned.set(ghost.id, stabilityAt(terrain, hash, planned, piece));
+    hash.insert(ghost, piece.position[0], piece.position[2]);
+    return null;
+  });
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { createBuildSite, SITE_X as X, SITE_Z as Z } from './testUtils';
+
+describe('placement', () => {
+  it('builds a foundation on flat ground and takes it from the inventory', () => {
+    const { engine, ground, place } = createBuildSite();
+    expect(place(ItemType.FOUNDATION, [X, ground, Z])).toBe(true);
+    expect(engine.getState().inventory[ItemType.FOUNDATION]).toBe(19);
+    expect(engine.getState().structures.filter(s => s.type === ItemType.FOUNDATION)).toHaveLength(1);
+  });
+
+  it('refuses a piece overlapping another', () => {
+    const { engine, ground, place } = createBuildSite();
+    place(ItemType.FOUNDATION, [X, ground, Z]);
+    const [foundation] = engine.getState().structures.filter(s => s.type === ItemType.FOUNDATION);
+    expect(engine.checkPlacement(ItemType.FOUNDATION, foundation.position, 0)).toBe('overlaps a Stone Foundation');
+    expect(engine.placeStructure(ItemType.FOUNDATION, foundation.position, 0)).toBe(false);
+    expect(engine.getState().inventory[ItemType.FOUNDATION]).toBe(19);
+  });
+
+  it('snaps walls onto the edge sockets of a foundation', () => {
+    const { engine, ground, place } = createBuildSite();
+    place(ItemType.FOUNDATION, [X, ground, Z]);
+    const [foundation] = engine.getState().structures;
+    const snapped = engine.snapPlacement(ItemType.WALL, [X + 0.2, ground + 1, Z + 1.3], 0);
+    expect(snapped.position[0]).toBeCloseTo(foundation.position[0]);
+    expect(snapped.position[1]).toBeCloseTo(foundation.position[1] + 0.5);
+    expect(snapped.position[2]).toBeCloseTo(foundation.position[2] + 1.5);
+    expect(engine.checkPlacement(ItemType.WALL, snapped.position, snapped.rotation)).toBeNull();
+  });
+
+  it('takes walls on the edge of a foundation on sloped ground', () => {
+    // The foundation here accepts the slope, but the ground under its +x edge falls away too steeply for a wall
+    const { engine, place } = createBuildSite();
+    const ground = engine.getTerrain().height(-60, 72);
+    expect(place(ItemType.FOUNDATION, [-60, ground, 72])).toBe(true);
+    const [foundation] = engine.getState().structures;
+    const [x, y, z] = foundation.position;
+    expect(engine.checkPlacement(ItemType.WALL, [x + 1.5, y + 0.5, z], Math.PI / 2)).toBeNull();
+    expect(place(ItemType.WALL, [x + 1.5, y + 1, z], Math.PI / 2)).toBe(true);
+  });
+
+  it('puts loose pieces on the build grid', () => {
+    const { engine, ground } = createBuildSite();
+    const { position } = engine.snapPlacement(ItemType.FOUNDATION, [X + 1.1, ground, Z - 0.9], 0);
+    expect(position[0] % 3).toBe(0);
+    expect(position[2] % 3).toBe(0);
+  });
+
+  it('refuses a foundation hanging in the air', () => {
+    const { engine, ground } = createBuildSite();
+    expect(engine.checkPlacement(ItemType.FOUNDATION, [X, ground + 6, Z], 0)).toBe('needs solid ground underneath');
+  });
+});
@@ -0,0 +1,171 @@
+import { ItemType, ResourceNodeData, Structure, StructureDef } from '../types';
+import { STRUCTURE_DATA } from '../data/structures';
+import { Terrain, WATER_LEVEL } from './terrain';
+import { nodeRadius } from './collision';
+import { SpatialHash } from './spatial';
+import { itemName } from './registry';
+
+// --- Building ---
+// Where a piece goes when the player aims at a spot, and whether it may go there. Pieces with a
+// socket for it nearby snap onto that socket; anything else lands on the 3m build grid, on top
+// of a foundation if there is one in that cell.
+
+export const GRID_SIZE = 3; // m
+const SNAP_DISTANCE = 2; // m from the aim point within which a socket catches the piece
+const HOST_RANGE = 6; // m around the aim point searched for hosts and obstacles
+const OVERLAP_SLACK = 0.1; // m pieces may sink into each other where they meet
+export const SOCKET_MATCH = 0.1; // m between a socket and a piece sitting in it
+const GROUND_SLACK = 0.1; // m
+const DEFAULT_MAX_DROP = 0.6; // m
+const FALLBACK_DEF: StructureDef = { maxHealth: 100, size: [1, 1, 1], base: 0 };
+
+export interface Placement {
+  position: [number, number, number];
+  rotation: number;
+}
+
+// Enough of a structure to place it
+export type Piece = Pick<Structure, 'type' | 'position' | 'rotation'>;
+
+export interface Socket extends Placement {
+  accepts: ItemType[];
+}
+
+interface Box {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export const structureDef = (type: ItemType): StructureDef => STRUCTURE_DATA[type] ?? FALLBACK_DEF;
+
+// Local (x, z) turned into world axes by a rotation about Y, as three.js does it
+export const rotate = (x: number, z: number, angle: number): [number, number] => [
+  x * Math.cos(angle) + z * Math.sin(angle),
+  -x * Math.sin(angle) + z * Math.cos(angle)
+];
+
+// Solid box of a piece, axis-aligned. Pieces turn in quarter steps, so width and depth just swap.
+const boxOf = (type: ItemType, [x, y, z]: [number, number, number], rotation: number): Box => {
+  const { size: [w, h, d], base } = structureDef(type);
+  const turned = Math.abs(Math.round(rotation / (Math.PI / 2))) % 2 === 1;
+  const [hx, hz] = turned ? [d / 2, w / 2] : [w / 2, d / 2];
+  return { min: [x - hx, y + base, z - hz], max: [x + hx, y + base + h, z + hz] };
+};
+
+const overlaps = (a: Box, b: Box): boolean =>
+  [0, 1, 2].every(i => a.min[i] + OVERLAP_SLACK < b.max[i] && b.min[i] + OVERLAP_SLACK < a.max[i]);
+
+// Ground height under the corners and centre of a box
+const groundUnder = (terrain: Terrain, box: Box): number[] => {
+  const [x0, , z0] = box.min;
+  const [x1, , z1] = box.max;
+  return [[x0, z0], [x1, z0], [x0, z1], [x1, z1], [(x0 + x1) / 2, (z0 + z1) / 2]].map(([x, z]) => terrain.height(x, z));
+};
+
+const reachesGround = (box: Box, ground: number[]): boolean => box.min[1] <= Math.max(...ground) + GROUND_SLACK;
+
+const touchesGround = (terrain: Terrain, piece: Piece): boolean => {
+  const box = boxOf(piece.type, piece.position, piece.rotation);
+  return reachesGround(box, groundUnder(terrain, box));
+};
+
+// Whether a piece stands on the terrain itself. Foundations only have to reach down to it. Other
+// pieces are laid on bare ground with their anchor at ground level, which tells them apart from
+// the same piece on a foundation whose top happens to be flush with the terrain.
+export const standsOnGround = (terrain: Terrain, piece: Piece): boolean => {
+  if (structureDef(piece.type).grounded) return touchesGround(terrain, piece);
+  const [x, y, z] = piece.position;
+  return Math.abs(y - terrain.height(x, z)) <= GROUND_SLACK;
+};
+
+// Sockets of a piece in world space
+export const socketsOf = (host: Piece): Socket[] => (structureDef(host.type).sockets ?? []).map(socket => {
+  const [ox, oz] = rotate(socket.offset[0], socket.offset[2], host.rotation);
+  return {
+    position: [host.position[0] + ox, host.position[1] + socket.offset[1], host.position[2] + oz],
+    rotation: host.rotation + socket.rotation,
+    accepts: socket.accepts
+  };
+});
+
+export const distance3D = (a: [number, number, number], b: [number, number, number]): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Whether a piece sits in a socket of another one, which then carries it instead of the ground
+export const isSeated = (hash: SpatialHash<Structure>, piece: Piece): boolean =>
+  hash.query(piece.position[0], piece.position[2], HOST_RANGE).some(host => host !== piece &&
+    socketsOf(host).some(s => s.accepts.includes(piece.type) && distance3D(s.position, piece.position) < SOCKET_MATCH));
+
+// Spots the sockets of nearby pieces offer for this type, nearest to the aim first
+const socketsFor = (hash: SpatialHash<Structure>, type: ItemType, aim: [number, number, number]): Placement[] => {
+  return hash.query(aim[0], aim[2], HOST_RANGE)
+    .flatMap(socketsOf)
+    .filter(socket => socket.accepts.includes(type) && distance3D(socket.position, aim) <= SNAP_DISTANCE)
+    .sort((a, b) => distance3D(a.position, aim) - distance3D(b.position, aim))
+    .map(({ position, rotation }) => ({ position, rotation }));
+};
+
+// Cell of the build grid under the aim point, lifted onto a foundation standing in it
+const gridPlacement = (
+  terrain: Terrain,
+  hash: SpatialHash<Structure>,
+  type: ItemType,
+  aim: [number, number, number],
+  rotation: number
+): Placement => {
+  const x = Math.round(aim[0] / GRID_SIZE) * GRID_SIZE;
+  const z = Math.round(aim[2] / GRID_SIZE) * GRID_SIZE;
+  const floor = type === ItemType.FOUNDATION ? undefined : hash.query(x, z, GRID_SIZE / 2)
+    .filter(s => s.type === ItemType.FOUNDATION)
+    .reduce<number | undefined>((top, s) => Math.max(top ?? -Infinity, s.position[1]), undefined);
+  return { position: [x, floor ?? terrain.height(x, z), z], rotation };
+};
+
+export const findPlacement = (
+  terrain: Terrain,
+  hash: SpatialHash<Structure>,
+  type: ItemType,
+  aim: [number, number, number],
+  rotation: number,
+  isFree: (placement: Placement) => boolean
+): Placement => {
+  // Prefer the closest socket nothing occupies yet, so sweeping along a base fills the gaps
+  const sockets = socketsFor(hash, type, aim);
+  return sockets.find(isFree) ?? sockets[0] ?? gridPlacement(terrain, hash, type, aim, rotation);
+};
+
+// Why a piece can't go here, or null when it can
+export const placementProblem = (
+  terrain: Terrain,
+  structures: SpatialHash<Structure>,
+  nodes: SpatialHash<ResourceNodeData>,
+  type: ItemType,
+  position: [number, number, number],
+  rotation: number
+): string | null => {
+  const [x, y, z] = position;
+  if (y < WATER_LEVEL) return "can't build underwater";
+
+  const box = boxOf(type, position, rotation);
+  const blocker = structures.query(x, z, HOST_RANGE).find(s => overlaps(box, boxOf(s.type, s.position, s.rotation)));
+  if (blocker) return `overlaps a ${itemName(blocker.type)}`;
+
+  // A piece in a socket rests on its host, which has already been checked against the ground
+  if (isSeated(structures, { type, position, rotation })) return null;
+
+  // Trees and rocks are round; test their circle against the footprint of anything on the ground
+  const def = structureDef(type);
+  const ground = groundUnder(terrain, box);
+  const touches = reachesGround(box, ground);
+  const node = touches && nodes.query(x, z, HOST_RANGE).find(r => {
+    const nx = Math.max(box.min[0], Math.min(r.position[0], box.max[0]));
+    const nz = Math.max(box.min[2], Math.min(r.position[2], box.max[2]));
+    return Math.hypot(r.position[0] - nx, r.position[2] - nz) < nodeRadius(r);
+  });
+  if (node) return node.type === 'TREE' ? "blocked by a tree" : `blocked by a ${itemName(node.drop)} deposit`;
+
+  // Only pieces standing on the ground care how flat it is
+  if (def.grounded && !touches) return "needs solid ground underneath";
+  if (touches && Math.max(...ground) - Math.min(...ground) > (def.maxDrop ?? DEFAULT_MAX_DROP)) return "ground is too steep";
+  return null;
+};
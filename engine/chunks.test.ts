@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { createGameEngine } from './GameEngine';
+import { chunkAt, chunkBounds, chunkDistance, chunksAround, CHUNK_SIZE, LOAD_RADIUS, UNLOAD_RADIUS } from './chunks';
+
+const FAR = 20 * CHUNK_SIZE;
+
+// Moves the player and lets the streaming catch up
+const walkTo = (engine: ReturnType<typeof createGameEngine>, x: number, z: number) => {
+  const y = engine.getTerrain().height(x, z) + 1.7;
+  engine.setPlayerPos([x, y, z, 1, 0]);
+  for (let i = 0; i < 5; i++) engine.tick(1);
+};
+
+describe('chunk maths', () => {
+  it('puts negative coordinates in the chunk below, not the one towards zero', () => {
+    expect(chunkAt(0, 0)).toBe('0,0');
+    expect(chunkAt(-0.1, CHUNK_SIZE)).toBe('-1,1');
+  });
+
+  it('loads a square around the player and measures ring distance', () => {
+    const keys = chunksAround(5, 5);
+    expect(keys).toHaveLength((LOAD_RADIUS * 2 + 1) ** 2);
+    expect(keys).toContain(`${-LOAD_RADIUS},${LOAD_RADIUS}`);
+    expect(chunkDistance('3,-2', 5, 5)).toBe(3);
+  });
+
+  it('bounds a set of chunks', () => {
+    expect(chunkBounds([])).toBeNull();
+    expect(chunkBounds(['-1,0', '1,2'])).toEqual({ minX: -CHUNK_SIZE, minZ: 0, width: 3 * CHUNK_SIZE, depth: 3 * CHUNK_SIZE });
+  });
+});
+
+describe('chunk streaming', () => {
+  it('loads the chunks around the player and only their nodes', () => {
+    const engine = createGameEngine({ random: () => 0.5 });
+    engine.newWorld('stream-test');
+    walkTo(engine, FAR, 0);
+
+    const { loadedChunks, resources } = engine.getState();
+    expect(loadedChunks).toContain(chunkAt(FAR, 0));
+    expect(loadedChunks).not.toContain(chunkAt(0, 0));
+    loadedChunks.forEach(key => expect(chunkDistance(key, FAR, 0)).toBeLessThanOrEqual(UNLOAD_RADIUS));
+    resources.forEach(r => expect(loadedChunks).toContain(chunkAt(r.position[0], r.position[2])));
+  });
+
+  it('brings back a chunk as it was left', () => {
+    const engine = createGameEngine({ random: () => 0.5 });
+    engine.newWorld('stream-test');
+    engine.addToInventory(ItemType.STONE, 3);
+    engine.dropItem(ItemType.STONE);
+    const before = engine.getState().resources;
+
+    walkTo(engine, FAR, FAR);
+    expect(engine.getState().resources.some(r => r.type === 'LOOSE_ITEM')).toBe(false);
+
+    walkTo(engine, 0, 5);
+    // Veins may reach into chunks past the loaded square; those nodes wait there
+    const { loadedChunks, resources } = engine.getState();
+    const ids = (nodes: typeof before) => nodes
+      .filter(r => loadedChunks.includes(chunkAt(r.position[0], r.position[2])))
+      .map(r => r.id)
+      .sort();
+    expect(ids(resources)).toEqual(ids(before));
+    expect(resources.some(r => r.type === 'LOOSE_ITEM')).toBe(true);
+  });
+
+  it('generates a chunk the same way in every engine', () => {
+    const a = createGameEngine({ random: () => 0.5 });
+    const b = createGameEngine({ random: () => 0.5 });
+    a.newWorld('stream-test');
+    b.newWorld('stream-test');
+    walkTo(a, FAR, 0);
+    walkTo(b, FAR, 0);
+    const near = (nodes: ReturnType<typeof a.getState>['resources']) => nodes.filter(r => chunkAt(r.position[0], r.position[2]) === chunkAt(FAR, 0));
+    expect(near(b.getState().resources)).toEqual(near(a.getState().resources));
+  });
+});
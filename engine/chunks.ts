@@ -0,0 +1,55 @@
+// --- World Chunks ---
+// The world is an endless grid of square chunks. Chunks around the player are loaded (their nodes
+// live in state.resources), the rest are generated on first visit and parked when left behind.
+
+export const CHUNK_SIZE = 32; // m
+export const LOAD_RADIUS = 3; // Chunks loaded in every direction around the player
+export const UNLOAD_RADIUS = LOAD_RADIUS + 1; // A little slack so walking along a border doesn't thrash
+
+export const chunkKey = (cx: number, cz: number) => `${cx},${cz}`;
+
+export const chunkCoords = (key: string): [number, number] => {
+  const [cx, cz] = key.split(',').map(Number);
+  return [cx, cz];
+};
+
+export const chunkAt = (x: number, z: number): string => chunkKey(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+
+// Square ring distance in chunks between a chunk and the one containing (x, z)
+export const chunkDistance = (key: string, x: number, z: number): number => {
+  const [cx, cz] = chunkCoords(key);
+  return Math.max(Math.abs(cx - Math.floor(x / CHUNK_SIZE)), Math.abs(cz - Math.floor(z / CHUNK_SIZE)));
+};
+
+export const chunksAround = (x: number, z: number, radius: number = LOAD_RADIUS): string[] => {
+  const keys: string[] = [];
+  const ox = Math.floor(x / CHUNK_SIZE);
+  const oz = Math.floor(z / CHUNK_SIZE);
+  for (let dz = -radius; dz <= radius; dz++) {
+    for (let dx = -radius; dx <= radius; dx++) keys.push(chunkKey(ox + dx, oz + dz));
+  }
+  return keys;
+};
+
+// World-space rectangle covered by a set of chunks
+export interface ChunkBounds {
+  minX: number;
+  minZ: number;
+  width: number;
+  depth: number;
+}
+
+export const chunkBounds = (keys: string[]): ChunkBounds | null => {
+  if (keys.length === 0) return null;
+  const coords = keys.map(chunkCoords);
+  const minCx = Math.min(...coords.map(c => c[0]));
+  const minCz = Math.min(...coords.map(c => c[1]));
+  const maxCx = Math.max(...coords.map(c => c[0]));
+  const maxCz = Math.max(...coords.map(c => c[1]));
+  return {
+    minX: minCx * CHUNK_SIZE,
+    minZ: minCz * CHUNK_SIZE,
+    width: (maxCx - minCx + 1) * CHUNK_SIZE,
+    depth: (maxCz - minCz + 1) * CHUNK_SIZE
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createClock, FIXED_STEP } from './clock';
+
+describe('game clock', () => {
+  it('turns real time into whole fixed steps and carries the rest over', () => {
+    const clock = createClock();
+    clock.advance(FIXED_STEP * 2.5);
+    expect(clock.time()).toBeCloseTo(FIXED_STEP * 2);
+    clock.advance(FIXED_STEP * 0.5);
+    expect(clock.time()).toBeCloseTo(FIXED_STEP * 3);
+  });
+
+  it('scales time and stands still while paused', () => {
+    const clock = createClock();
+    clock.setTimeScale(2);
+    clock.advance(1);
+    expect(clock.time()).toBeCloseTo(2);
+
+    clock.setPaused(true);
+    clock.advance(1);
+    expect(clock.time()).toBeCloseTo(2);
+  });
+
+  it('drops backlog after a long stall', () => {
+    const clock = createClock();
+    clock.advance(3600);
+    expect(clock.time()).toBeLessThan(60);
+  });
+
+  it('runs periodic systems on their period and phase', () => {
+    const clock = createClock();
+    const everySecond = vi.fn();
+    const offset = vi.fn();
+    clock.every(1, everySecond);
+    clock.every(1, offset, 0.5);
+
+    clock.advance(0.5);
+    expect(everySecond).not.toHaveBeenCalled();
+    expect(offset).toHaveBeenCalledTimes(1);
+
+    clock.advance(2.5);
+    expect(everySecond).toHaveBeenCalledTimes(3);
+    expect(offset).toHaveBeenCalledTimes(3);
+  });
+
+  it('fires timers once, in order, and not after being cancelled', () => {
+    const clock = createClock();
+    const fired: string[] = [];
+    clock.on('ring', (payload) => fired.push(String(payload.name)));
+    clock.schedule(2, 'ring', { name: 'late' });
+    clock.schedule(1, 'ring', { name: 'early' });
+    const cancelled = clock.schedule(1.5, 'ring', { name: 'cancelled' });
+    clock.cancel(cancelled);
+
+    clock.advance(1);
+    expect(fired).toEqual(['early']);
+    clock.advance(5);
+    expect(fired).toEqual(['early', 'late']);
+    expect(clock.pending()).toEqual([]);
+  });
+
+  it('saves timers by time left and restores them on another clock', () => {
+    const clock = createClock();
+    clock.schedule(5, 'rain', { strength: 2 });
+    clock.schedule(3, 'ad', {}, 'session');
+    clock.advance(2);
+
+    const saved = clock.saveTimers('world');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].kind).toBe('rain');
+    expect(saved[0].payload).toEqual({ strength: 2 });
+    expect(saved[0].remaining).toBeCloseTo(3);
+
+    const restored = createClock();
+    const rain = vi.fn();
+    restored.on('rain', rain);
+    restored.restoreTimers(saved, 'world');
+    restored.advance(2.9);
+    expect(rain).not.toHaveBeenCalled();
+    restored.advance(0.1);
+    expect(rain).toHaveBeenCalledWith({ strength: 2 });
+  });
+
+  it('clears only the timers of one scope', () => {
+    const clock = createClock();
+    clock.schedule(1, 'rain');
+    clock.schedule(1, 'ad', {}, 'session');
+    clock.clearTimers('world');
+    expect(clock.pending().map(t => t.kind)).toEqual(['ad']);
+  });
+});
@@ -0,0 +1,139 @@
+// --- Game Clock ---
+// Single fixed-timestep scheduler for the engine. Real time goes in through advance(),
+// is scaled and chopped into FIXED_STEP slices, and every system and timer runs on those slices.
+// Timers are plain data (kind + JSON payload) so they can be written into a save.
+
+export const FIXED_STEP = 0.1; // seconds of game time per step
+const MAX_STEPS_PER_ADVANCE = 100; // Drop backlog instead of spiralling after a long stall
+const STEP_EPSILON = 1e-9; // Float slack, so e.g. ten 0.1 s frames make ten steps and not nine
+
+export type TimerScope = 'world' | 'session';
+export type TimerPayload = Record<string, string | number | boolean>;
+
+export interface PendingTimer {
+  id: number;
+  at: number; // Clock time in seconds
+  kind: string;
+  payload: TimerPayload;
+  scope: TimerScope; // 'world' timers are saved with the world and dropped when another one loads
+}
+
+export interface SavedTimer {
+  kind: string;
+  payload: TimerPayload;
+  remaining: number; // Seconds left, so restoring doesn't depend on the old clock's time
+}
+
+export interface GameClock {
+  time: () => number;
+  isPaused: () => boolean;
+  setPaused: (paused: boolean) => void;
+  getTimeScale: () => number;
+  setTimeScale: (scale: number) => void;
+  advance: (realDt: number) => void;
+  every: (period: number, system: () => void, phase?: number) => void;
+  on: (kind: string, handler: (payload: TimerPayload) => void) => void;
+  schedule: (delay: number, kind: string, payload?: TimerPayload, scope?: TimerScope) => number;
+  cancel: (id: number) => void;
+  pending: (kind?: string) => PendingTimer[];
+  saveTimers: (scope: TimerScope) => SavedTimer[];
+  restoreTimers: (saved: SavedTimer[], scope: TimerScope) => void;
+  clearTimers: (scope: TimerScope) => void;
+}
+
+interface PeriodicSystem {
+  periodSteps: number;
+  phaseSteps: number;
+  run: () => void;
+}
+
+export const createClock = (): GameClock => {
+  const systems: PeriodicSystem[] = [];
+  const handlers = new Map<string, (payload: TimerPayload) => void>();
+
+  // Integer step counter keeps periodic systems free of float drift
+  let steps = 0;
+  let accumulator = 0;
+  let paused = false;
+  let timeScale = 1;
+  let timers: PendingTimer[] = [];
+  let nextTimerId = 1;
+
+  const time = () => steps * FIXED_STEP;
+
+  const runDueTimers = () => {
+    const now = time() + 1e-9;
+    const due = timers.filter(t => t.at <= now);
+    if (due.length === 0) return;
+    timers = timers.filter(t => t.at > now);
+
+    due.sort((a, b) => a.at - b.at || a.id - b.id).forEach(t => {
+      const handler = handlers.get(t.kind);
+      if (handler) handler(t.payload);
+      else console.error(`No handler for timer "${t.kind}"`);
+    });
+  };
+
+  const step = () => {
+    steps++;
+    runDueTimers();
+    systems.forEach(system => {
+      if (steps % system.periodSteps === system.phaseSteps) system.run();
+    });
+  };
+
+  const advance = (realDt: number) => {
+    if (paused || realDt <= 0) return;
+
+    accumulator = Math.min(accumulator + realDt * timeScale, FIXED_STEP * MAX_STEPS_PER_ADVANCE);
+    while (accumulator >= FIXED_STEP - STEP_EPSILON) {
+      accumulator = Math.max(0, accumulator - FIXED_STEP);
+      step();
+    }
+  };
+
+  // Run a system every `period` seconds. phase shifts the first run (defaults to one full period).
+  const every = (period: number, run: () => void, phase: number = period) => {
+    const periodSteps = Math.max(1, Math.round(period / FIXED_STEP));
+    const phaseSteps = Math.round(phase / FIXED_STEP) % periodSteps;
+    systems.push({ periodSteps, phaseSteps, run });
+  };
+
+  const schedule = (delay: number, kind: string, payload: TimerPayload = {}, scope: TimerScope = 'world'): number => {
+    const id = nextTimerId++;
+    timers.push({ id, at: time() + Math.max(0, delay), kind, payload, scope });
+    return id;
+  };
+
+  return {
+    time,
+    isPaused: () => paused,
+    setPaused: (value) => {
+      paused = value;
+      accumulator = 0;
+    },
+    getTimeScale: () => timeScale,
+    setTimeScale: (scale) => {
+      timeScale = Math.max(0, scale);
+    },
+    advance,
+    every,
+    on: (kind, handler) => {
+      handlers.set(kind, handler);
+    },
+    schedule,
+    cancel: (id) => {
+      timers = timers.filter(t => t.id !== id);
+    },
+    pending: (kind) => kind ? timers.filter(t => t.kind === kind) : [...timers],
+    saveTimers: (scope) => timers
+      .filter(t => t.scope === scope)
+      .map(t => ({ kind: t.kind, payload: { ...t.payload }, remaining: Math.max(0, t.at - time()) })),
+    restoreTimers: (saved, scope) => {
+      saved.forEach(t => schedule(t.remaining, t.kind, t.payload, scope));
+    },
+    clearTimers: (scope) => {
+      timers = timers.filter(t => t.scope !== scope);
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { ItemType, ResourceNodeData, Structure } from '../types';
+import { EngineState, PlayerPose } from './types';
+import { WorldIndex } from './spatial';
+
+export const PLAYER_RADIUS = 0.5;
+const CHARACTER_DISTANCE = 1.0; // Closest two characters may get
+const MAX_OBSTACLE_RADIUS = 2.0; // Largest radius below, bounds the spatial lookups
+
+// Blocking radii, shared with the navigation grid
+export const nodeRadius = (node: ResourceNodeData): number => node.type === 'TREE' ? 0.5 : 1.0;
+
+export const structureRadius = (structure: Structure): number => {
+  if (structure.type === ItemType.FOUNDATION) return 2.0;
+  if (structure.type === ItemType.WALL) return 1.5;
+  if (structure.type === ItemType.MINING_RIG) return 0.5;
+  if (structure.type === ItemType.POWER_POLE) return 0.3;
+  return 1.0;
+};
+
+// Returns true if a body at (x, z) would overlap a node, a structure or another character.
+// Bots pass their own id as ignoreId, which also makes the main player an obstacle for them.
+export const collides = (state: EngineState, index: WorldIndex, playerPos: PlayerPose, x: number, z: number, ignoreId?: string): boolean => {
+   const nearNodes = index.nodes(state.resources).query(x, z, PLAYER_RADIUS + MAX_OBSTACLE_RADIUS);
+   for (const r of nearNodes) {
+     const dx = x - r.position[0];
+     const dz = z - r.position[2];
+     const dist = Math.sqrt(dx*dx + dz*dz);
+     if (dist < (PLAYER_RADIUS + nodeRadius(r))) return true;
+   }
+
+   const nearStructures = index.structures(state.structures).query(x, z, PLAYER_RADIUS + MAX_OBSTACLE_RADIUS);
+   for (const s of nearStructures) {
+     const dx = x - s.position[0];
+     const dz = z - s.position[2];
+     const dist = Math.sqrt(dx*dx + dz*dz);
+     if (dist < (PLAYER_RADIUS + structureRadius(s))) return true;
+   }
+   
+   // AI Collision
+   for (const ai of index.bots(state.aiPlayers).query(x, z, CHARACTER_DISTANCE)) {
+     if (ai.id === ignoreId) continue;
+     const dx = x - ai.position[0];
+     const dz = z - ai.position[2];
+     const dist = Math.sqrt(dx*dx + dz*dz);
+     if (dist < CHARACTER_DISTANCE) return true;
+   }
+
+   // Main Player Collision (If called by a bot)
+   if (ignoreId) {
+     const [px, , pz] = playerPos;
+     const dx = x - px;
+     const dz = z - pz;
+     const dist = Math.sqrt(dx*dx + dz*dz);
+     if (dist < CHARACTER_DISTANCE) return true;
+   }
+   
+   return false;
+};
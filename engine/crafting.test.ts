@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { createGameEngine } from './GameEngine';
+import { findRecipe, planCraft, MAX_QUEUED_JOBS } from './crafting';
+
+const setup = () => {
+  const engine = createGameEngine({ random: () => 0.5 });
+  engine.newWorld('craft-test');
+  return engine;
+};
+
+// Runs the engine for a while of game time
+const run = (engine: ReturnType<typeof setup>, seconds: number) => {
+  for (let t = 0; t < seconds; t += 0.5) engine.tick(0.5);
+};
+
+describe('crafting queue', () => {
+  it('reserves inputs when queued and hands out the output once done', () => {
+    const engine = setup();
+    const recipe = findRecipe(ItemType.SILICON)!;
+    engine.addToInventory(ItemType.STONE, 4);
+    engine.addToInventory(ItemType.COAL, 2);
+
+    expect(engine.craft(recipe, 2)).toBe(true);
+    const { inventory, craftQueue } = engine.getState();
+    expect(inventory[ItemType.STONE]).toBe(0);
+    expect(inventory[ItemType.COAL]).toBe(0);
+    expect(craftQueue).toHaveLength(1);
+
+    run(engine, recipe.craftTime * 2 + 1);
+    expect(engine.getState().inventory[ItemType.SILICON]).toBe(2);
+    expect(engine.getState().craftQueue).toHaveLength(0);
+  });
+
+  it('refuses to queue without the inputs', () => {
+    const engine = setup();
+    expect(engine.craft(findRecipe(ItemType.STEEL)!)).toBe(false);
+    expect(engine.getState().craftQueue).toHaveLength(0);
+  });
+
+  it('refunds what a cancelled job still holds', () => {
+    const engine = setup();
+    engine.addToInventory(ItemType.METAL_ORE, 4);
+    engine.addToInventory(ItemType.COAL, 2);
+    engine.craft(findRecipe(ItemType.STEEL)!, 2);
+    engine.cancelCraft(engine.getState().craftQueue[0].id);
+    expect(engine.getState().inventory[ItemType.METAL_ORE]).toBe(4);
+    expect(engine.getState().inventory[ItemType.COAL]).toBe(2);
+  });
+
+  it('caps the number of queued jobs', () => {
+    const engine = setup();
+    engine.addToInventory(ItemType.STONE, 100);
+    engine.addToInventory(ItemType.COAL, 100);
+    const recipe = findRecipe(ItemType.SILICON)!;
+    for (let i = 0; i < MAX_QUEUED_JOBS; i++) expect(engine.craft(recipe)).toBe(true);
+    expect(engine.craft(recipe)).toBe(false);
+    expect(engine.getState().logs[0]).toBe('Fabricator queue is full.');
+  });
+
+  it('chains the intermediate steps for a target', () => {
+    const engine = setup();
+    engine.addToInventory(ItemType.METAL_ORE, 8);
+    engine.addToInventory(ItemType.COAL, 4);
+    engine.addToInventory(ItemType.SCRAP, 2);
+    expect(planCraft(ItemType.FRAME, 1, engine.getState().inventory).missing).toEqual([]);
+
+    expect(engine.craftChain(ItemType.FRAME)).toBe(true);
+    expect(engine.getState().craftQueue.map(j => j.output)).toEqual([ItemType.STEEL, ItemType.FRAME]);
+
+    run(engine, 30);
+    expect(engine.getState().inventory[ItemType.FRAME]).toBe(1);
+    expect(engine.getState().inventory[ItemType.STEEL]).toBe(0);
+  });
+});
@@ -0,0 +1,127 @@
+import { CraftJob, ItemStack, ItemType, Recipe } from '../types';
+import { RECIPES } from './registry';
+
+export const MAX_QUEUED_JOBS = 10;
+
+export const findRecipe = (output: ItemType): Recipe | undefined => {
+  return RECIPES.find(r => r.output === output);
+};
+
+// How many batches of a recipe the inventory can pay for right now
+export const maxCraftable = (recipe: Recipe, inventory: Record<string, number>): number => {
+  return Math.min(...recipe.inputs.map(input => Math.floor((inventory[input.item] || 0) / input.count)));
+};
+
+// Inputs reserved by a job, i.e. what cancelling it gives back
+export const reservedInputs = (job: CraftJob): ItemStack[] => {
+  const recipe = findRecipe(job.output);
+  if (!recipe) return [];
+  return recipe.inputs
+    .map(input => {
+      const awaiting = job.awaiting?.find(a => a.item === input.item)?.count || 0;
+      return { item: input.item, count: input.count * job.quantity - awaiting };
+    })
+    .filter(input => input.count > 0);
+};
+
+// Fraction of the current batch that is done, for progress bars
+export const jobProgress = (job: CraftJob): number => {
+  const recipe = findRecipe(job.output);
+  if (!recipe || recipe.craftTime <= 0) return 1;
+  return Math.min(1, job.progress / recipe.craftTime);
+};
+
+// --- Planner ---
+// Resolves the whole recipe tree for a target against an inventory.
+// Steps come out in dependency order, so queueing them front to back always works.
+
+export interface PlanStep {
+  recipe: Recipe;
+  batches: number;
+  fromStock: ItemStack[]; // Taken from the inventory up front
+  fromChain: ItemStack[]; // Made by earlier steps of the plan
+}
+
+export interface CraftPlan {
+  target: ItemType;
+  quantity: number;
+  steps: PlanStep[];
+  missing: ItemStack[]; // Raw materials the inventory is short of
+}
+
+const addStack = (stacks: ItemStack[], item: ItemType, count: number) => {
+  if (count <= 0) return;
+  const existing = stacks.find(s => s.item === item);
+  if (existing) existing.count += count;
+  else stacks.push({ item, count });
+};
+
+export const planCraft = (target: ItemType, quantity: number, inventory: Record<string, number>): CraftPlan => {
+  const stock: Record<string, number> = { ...inventory };
+  const made: Record<string, number> = {}; // Plan output not yet spoken for (e.g. the spare Copper Wire)
+  const steps = new Map<ItemType, PlanStep>();
+  const missing: ItemStack[] = [];
+  const resolving = new Set<ItemType>(); // Guards against recipe loops
+
+  const obtain = (item: ItemType, count: number, fromStock: ItemStack[], fromChain: ItemStack[]) => {
+    const stocked = Math.min(stock[item] || 0, count);
+    stock[item] = (stock[item] || 0) - stocked;
+    addStack(fromStock, item, stocked);
+
+    const needed = count - stocked;
+    if (needed <= 0) return;
+
+    const spare = made[item] || 0;
+    const recipe = findRecipe(item);
+    if (spare < needed && (!recipe || resolving.has(item))) {
+      addStack(missing, item, needed);
+      return;
+    }
+    if (spare < needed && recipe) produce(recipe, Math.ceil((needed - spare) / recipe.count));
+    made[item] -= needed;
+    addStack(fromChain, item, needed);
+  };
+
+  const produce = (recipe: Recipe, batches: number) => {
+    resolving.add(recipe.output);
+    const fromStock: ItemStack[] = [];
+    const fromChain: ItemStack[] = [];
+    recipe.inputs.forEach(input => obtain(input.item, input.count * batches, fromStock, fromChain));
+    resolving.delete(recipe.output);
+
+    // Inserted after its inputs, so the map's order is a valid build order
+    const step = steps.get(recipe.output);
+    if (step) {
+      step.batches += batches;
+      fromStock.forEach(s => addStack(step.fromStock, s.item, s.count));
+      fromChain.forEach(s => addStack(step.fromChain, s.item, s.count));
+    } else {
+      steps.set(recipe.output, { recipe, batches, fromStock, fromChain });
+    }
+    made[recipe.output] = (made[recipe.output] || 0) + batches * recipe.count;
+  };
+
+  const recipe = findRecipe(target);
+  if (recipe && quantity > 0) produce(recipe, Math.ceil(quantity / recipe.count));
+
+  return { target, quantity, steps: [...steps.values()], missing };
+};
+
+// Total inventory a plan consumes up front
+export const planStockCost = (plan: CraftPlan): ItemStack[] => {
+  const total: ItemStack[] = [];
+  plan.steps.forEach(step => step.fromStock.forEach(s => addStack(total, s.item, s.count)));
+  return total;
+};
+
+// Run a plan instantly on an inventory. Used by bots, which don't have a fabrication queue.
+export const applyPlan = (plan: CraftPlan, inventory: Record<string, number>): Record<string, number> => {
+  const inv = { ...inventory };
+  plan.steps.forEach(step => {
+    step.recipe.inputs.forEach(input => {
+      inv[input.item] = (inv[input.item] || 0) - input.count * step.batches;
+    });
+    inv[step.recipe.output] = (inv[step.recipe.output] || 0) + step.recipe.count * step.batches;
+  });
+  return inv;
+};
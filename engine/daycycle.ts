@@ -0,0 +1,34 @@
+// --- Day/Night Cycle ---
+// Time of day is the fraction of a day gone by: 0 midnight, 0.25 sunrise, 0.5 noon, 0.75 sunset.
+// The engine advances it and uses it for bots and rigs, the renderer for the sun, sky and lights.
+
+export const DAY_LENGTHS = [240, 600, 1200, 2400]; // s of game time per day, picked in the terminal
+export const DEFAULT_DAY_LENGTH = 600;
+export const MORNING = 0.3; // New worlds start just after sunrise
+
+const SUN_TILT = 0.4; // Keeps the sun off the exact east-west line so shadows have some depth
+
+// -1 at midnight, 1 at noon, 0 on the horizon
+export const sunHeight = (t: number): number => Math.sin((t - 0.25) * Math.PI * 2);
+
+// Unit vector towards the sun. Rises in the east (+x) and sets in the west.
+export const sunDirection = (t: number): [number, number, number] => {
+  const angle = (t - 0.25) * Math.PI * 2;
+  const [x, y, z] = [Math.cos(angle), Math.sin(angle), SUN_TILT];
+  const length = Math.hypot(x, y, z);
+  return [x / length, y / length, z / length];
+};
+
+// 1 in full daylight, 0 at night, easing through dawn and dusk
+export const daylight = (t: number): number => {
+  const s = Math.min(1, Math.max(0, (sunHeight(t) + 0.1) / 0.3));
+  return s * s * (3 - 2 * s);
+};
+
+export const isNight = (t: number): boolean => sunHeight(t) < 0;
+
+// 24h clock, e.g. "06:00" at sunrise
+export const formatTimeOfDay = (t: number): string => {
+  const minutes = Math.floor((((t % 1) + 1) % 1) * 24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, Structure } from '../types';
+import { demolitionRefund, isDamaged, repairCost } from './durability';
+import { createRigSite } from './testUtils';
+
+const WALL: Structure = { id: 'wall', type: ItemType.WALL, position: [0, 0, 0], rotation: 0, health: 200, maxHealth: 200 };
+
+describe('structure durability', () => {
+  it('charges nothing for a structure in good shape', () => {
+    expect(isDamaged(WALL)).toBe(false);
+    expect(repairCost(WALL)).toEqual([]);
+  });
+
+  it('charges part of the recipe for the health missing, rounded up', () => {
+    const scratched = { ...WALL, health: 199 };
+    expect(isDamaged(scratched)).toBe(true);
+    expect(repairCost(scratched)).toEqual([{ item: 'WOOD', count: 1 }]);
+    expect(repairCost({ ...WALL, health: 0 })).toEqual([{ item: 'WOOD', count: 2 }]);
+  });
+
+  it('salvages half of the recipe, fitted parts and fuel, rounded down', () => {
+    const rig: Structure = { ...WALL, type: ItemType.MINING_RIG, tier: 2, health: 0, maxHealth: 100 };
+    expect(demolitionRefund(rig)).toEqual([
+      { item: 'CIRCUIT_BOARD', count: 1 },
+      { item: 'PLASTIC', count: 1 },
+      { item: 'GPU', count: 1 }
+    ]);
+
+    const generator: Structure = { ...WALL, type: ItemType.COAL_GENERATOR, fuel: 5, health: 0, maxHealth: 150 };
+    expect(demolitionRefund(generator)).toEqual([
+      { item: 'STEEL', count: 2 },
+      { item: 'COPPER_WIRE', count: 2 },
+      { item: 'COAL', count: 2 }
+    ]);
+  });
+
+  it('repairs a damaged structure with parts from the inventory', () => {
+    const { engine, rig } = createRigSite();
+    engine.hitStructure(rig);
+    expect(engine.getState().structures.find(s => s.id === rig)!.health).toBe(75);
+
+    engine.repairStructure(rig);
+    expect(engine.getState().logs[0]).toMatch(/^Repair needs /);
+
+    engine.addToInventory(ItemType.CIRCUIT_BOARD, 1);
+    engine.addToInventory(ItemType.FRAME, 1);
+    engine.addToInventory(ItemType.PLASTIC, 1);
+    engine.repairStructure(rig);
+    const state = engine.getState();
+    expect(state.structures.find(s => s.id === rig)!.health).toBe(100);
+    expect(state.inventory[ItemType.CIRCUIT_BOARD] || 0).toBe(0);
+    expect(state.inventory[ItemType.FRAME] || 0).toBe(0);
+    expect(state.inventory[ItemType.PLASTIC] || 0).toBe(0);
+  });
+
+  it('hands the salvage to the player who demolishes a structure', () => {
+    const { engine, rig } = createRigSite();
+    for (let i = 0; i < 4; i++) engine.hitStructure(rig);
+
+    const state = engine.getState();
+    expect(state.structures.some(s => s.id === rig)).toBe(false);
+    expect(state.inventory[ItemType.CIRCUIT_BOARD]).toBe(1);
+    expect(state.inventory[ItemType.PLASTIC]).toBe(1);
+    expect(state.logs[0]).toMatch(/^Demolished Mining Rig\. Salvaged /);
+  });
+});
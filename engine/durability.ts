@@ -0,0 +1,37 @@
+import { ItemStack, ItemType, Structure } from '../types';
+import { STRUCTURE_DATA } from '../data/structures';
+import { POWER_DATA } from '../data/power';
+import { findRecipe } from './crafting';
+import { fittedParts } from './rigs';
+
+// --- Structure Durability ---
+// Structures wear down instead of vanishing in one swing. Patching one up costs part of its
+// recipe, and a demolished one only gives back part of what went into it.
+
+const DEFAULT_MAX_HEALTH = 100;
+const REPAIR_SHARE = 0.3; // Share of the recipe a repair from zero to full health costs
+const DEMOLITION_REFUND = 0.5; // Share of the recipe, parts and fuel salvaged from a demolished structure
+
+export const maxStructureHealth = (type: ItemType): number => STRUCTURE_DATA[type]?.maxHealth ?? DEFAULT_MAX_HEALTH;
+
+export const isDamaged = (s: Structure): boolean => s.health < s.maxHealth;
+
+// Recipe inputs, in proportion to the health missing and rounded up so a scratch still costs something
+export const repairCost = (s: Structure): ItemStack[] => {
+  const missing = 1 - s.health / s.maxHealth;
+  if (missing <= 0) return [];
+  return (findRecipe(s.type)?.inputs ?? []).map(input => ({ item: input.item, count: Math.ceil(input.count * REPAIR_SHARE * missing) }));
+};
+
+// What can be salvaged from a structure brought down by force, rounded down
+export const demolitionRefund = (s: Structure): ItemStack[] => {
+  const fuel = POWER_DATA[s.type]?.fuel;
+  const contents = [
+    ...(findRecipe(s.type)?.inputs ?? []),
+    ...fittedParts(s),
+    ...(fuel && s.fuel ? [{ item: fuel, count: s.fuel }] : [])
+  ];
+  return contents
+    .map(stack => ({ item: stack.item, count: Math.floor(stack.count * DEMOLITION_REFUND) }))
+    .filter(stack => stack.count > 0);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { GameEvent } from '../types';
+import { createRigSite } from './testUtils';
+
+describe('mining', () => {
+  it('counts a powered rig as active', () => {
+    const { engine, rig } = createRigSite();
+    expect([...engine.getActiveRigs(engine.getState())]).toEqual([rig]);
+  });
+
+  it('leaves a rig without power idle', () => {
+    const { engine } = createRigSite(0);
+    expect(engine.getActiveRigs(engine.getState()).size).toBe(0);
+  });
+
+  it('stops every rig during a sponsor break', () => {
+    const { engine } = createRigSite();
+    engine.triggerAd('Test');
+    expect(engine.getState().activeEvent).toBe(GameEvent.AD_BREAK);
+    expect(engine.getActiveRigs(engine.getState()).size).toBe(0);
+  });
+
+  it('works the same set out until something changes', () => {
+    const { engine } = createRigSite();
+    const active = engine.getActiveRigs(engine.getState());
+    engine.addLog('Nothing to do with rigs');
+    expect(engine.getActiveRigs(engine.getState())).toBe(active);
+  });
+
+  it('pays the player what their rigs draw from the pot', () => {
+    const { engine } = createRigSite();
+    const before = engine.getState();
+    const rate = engine.getMiningRate(before);
+    expect(rate).toBeGreaterThan(0);
+
+    engine.tick(1);
+    const after = engine.getState();
+    expect(after.money).toBeCloseTo(rate);
+    expect(before.globalPot - after.globalPot).toBeCloseTo(after.money);
+  });
+
+  it('pays nothing for idle rigs', () => {
+    const { engine } = createRigSite(0);
+    const before = engine.getState();
+    engine.tick(1);
+    expect(engine.getState().money).toBe(0);
+    expect(engine.getState().globalPot).toBe(before.globalPot);
+  });
+
+  it('pays nothing during a sponsor break', () => {
+    const { engine } = createRigSite();
+    engine.triggerAd('Test');
+    const pot = engine.getState().globalPot;
+    engine.tick(1);
+    expect(engine.getState().money).toBe(0);
+    expect(engine.getState().globalPot).toBe(pot);
+  });
+});
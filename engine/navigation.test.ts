@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, Structure } from '../types';
+import { ChunkBounds } from './chunks';
+import { buildNavGrid, createNavigator, findPath, NavGrid } from './navigation';
+import { createTerrain } from './terrain';
+
+const BOUNDS: ChunkBounds = { minX: 0, minZ: 0, width: 20, depth: 20 };
+const LAND = 1;
+const WATER = 2;
+
+const foundation = (x: number, z: number): Structure => ({
+  id: `f-${x}-${z}`, type: ItemType.FOUNDATION, position: [x, 0, z], rotation: 0, health: 400, maxHealth: 400
+});
+
+// Foundations across x = 10 from the bottom edge up to z = 16.5, leaving a way round at the top
+const BARRIER = [2, 5, 8, 11, 14].map(z => foundation(10, z));
+
+const grid = (structures: Structure[] = [], paint?: (cells: Uint8Array) => void): NavGrid => {
+  const ground = new Uint8Array(BOUNDS.width * BOUNDS.depth).fill(LAND);
+  paint?.(ground);
+  return buildNavGrid(ground, [], structures, BOUNDS, 1);
+};
+
+const cellAt = (g: NavGrid, [x, z]: [number, number]) => g.cells[Math.floor(z - g.minZ) * g.cols + Math.floor(x - g.minX)];
+
+describe('navigation', () => {
+  it('walks straight across open ground', () => {
+    const path = findPath(grid(), 2.5, 2.5, 12.5, 2.5, 0.5)!;
+    expect(path).toHaveLength(10);
+    expect(path[path.length - 1]).toEqual([12.5, 2.5]);
+  });
+
+  it('stops once the target is within reach', () => {
+    const path = findPath(grid(), 2.5, 2.5, 12.5, 2.5, 3)!;
+    const [x] = path[path.length - 1];
+    expect(12.5 - x).toBeLessThanOrEqual(3);
+    expect(path.length).toBeLessThan(10);
+  });
+
+  it('goes around structures instead of through them', () => {
+    const g = grid(BARRIER);
+    const path = findPath(g, 2.5, 8.5, 17.5, 8.5, 0.5)!;
+    expect(path).not.toBeNull();
+    path.forEach(point => expect(cellAt(g, point)).not.toBe(0));
+    expect(Math.max(...path.map(([, z]) => z))).toBeGreaterThanOrEqual(16.5);
+  });
+
+  it('gives up on a target walled in on every side', () => {
+    const ring = [2, 5, 8, 11, 14, 17].flatMap(v => [foundation(v, 2), foundation(v, 17), foundation(2, v), foundation(17, v)]);
+    expect(findPath(grid(ring), 19.5, 0.5, 9.5, 9.5, 0.5)).toBeNull();
+  });
+
+  it('wades only when going round costs more', () => {
+    // A strip of shallows across the map with a dry gap at the far end
+    const shallows = (gap: boolean) => grid([], cells => {
+      for (let z = 0; z < BOUNDS.depth; z++) {
+        if (!(gap && z === BOUNDS.depth - 1)) cells[z * BOUNDS.width + 10] = WATER;
+      }
+    });
+    const dry = findPath(shallows(true), 9.5, 18.5, 11.5, 18.5, 0.5)!;
+    expect(dry.some(point => cellAt(shallows(true), point) === WATER)).toBe(false);
+
+    const wet = findPath(shallows(false), 9.5, 2.5, 11.5, 2.5, 0.5)!;
+    expect(wet.some(point => cellAt(shallows(false), point) === WATER)).toBe(true);
+  });
+
+  it('lets a walker stuck inside an obstacle push its way out', () => {
+    const path = findPath(grid([foundation(10, 10)]), 10.5, 10.5, 2.5, 10.5, 0.5);
+    expect(path).not.toBeNull();
+  });
+});
+
+describe('navigator', () => {
+  it('heads along the planned path and re-plans once told the world changed', () => {
+    const world = { terrain: createTerrain('nav-test'), resources: [], structures: [] as Structure[], bounds: { minX: -16, minZ: -16, width: 32, depth: 32 } };
+    const navigator = createNavigator(() => world);
+    expect(navigator.headingFor('bot', 0.5, 0.5, 10.5, 0.5, 0.5)).toBeCloseTo(Math.PI / 2);
+
+    world.structures = [foundation(5, 0.5)];
+    expect(navigator.headingFor('bot', 0.5, 0.5, 10.5, 0.5, 0.5)).toBeCloseTo(Math.PI / 2);
+    navigator.invalidate();
+    expect(navigator.headingFor('bot', 0.5, 0.5, 10.5, 0.5, 0.5)).not.toBeCloseTo(Math.PI / 2);
+  });
+
+  it('has no heading before any chunk is loaded', () => {
+    const navigator = createNavigator(() => ({ terrain: createTerrain('nav-test'), resources: [], structures: [], bounds: null }));
+    expect(navigator.headingFor('bot', 0, 0, 5, 5, 0.5)).toBeNull();
+  });
+});
@@ -0,0 +1,264 @@
+import { ResourceNodeData, Structure } from '../types';
+import { Terrain, WATER_LEVEL, WADING_DEPTH } from './terrain';
+import { nodeRadius, structureRadius, PLAYER_RADIUS } from './collision';
+import { ChunkBounds } from './chunks';
+
+// --- Navigation ---
+// Coarse walkability grid over the loaded chunks plus A* on top of it. The grid only knows static
+// obstacles (nodes, structures, water); bots still slide around each other with checkCollision.
+// Outside the grid bots fall back to walking straight.
+
+const CELL_SIZE = 1; // m
+const WATER_COST = 5; // Wading is allowed (scrap lies underwater) but avoided when there's a way around
+const DIAGONAL = Math.SQRT2;
+const MAX_EXPANSIONS = 6000; // Bounds the work per plan; unreachable goals give up here
+const WAYPOINT_REACHED = 0.6; // m
+const OFF_PATH_DISTANCE = 3; // m from the next waypoint before a bot re-plans
+const ESCAPE_COST = 3; // How far a walker starting inside an obstacle may push through it to get out
+
+const BLOCKED = 0;
+const WATER = 2;
+
+export interface NavGrid {
+  version: number; // Bumped on every rebuild, paths from older versions are stale
+  minX: number;
+  minZ: number;
+  cols: number;
+  rows: number;
+  cells: Uint8Array; // 0 blocked, otherwise the step cost
+}
+
+// Cell index along one axis, or -1 outside the grid
+const toCell = (v: number, min: number, count: number) => {
+  const c = Math.floor((v - min) / CELL_SIZE);
+  return c >= 0 && c < count ? c : -1;
+};
+const cellCenter = (c: number, min: number) => min + c * CELL_SIZE + CELL_SIZE / 2;
+
+const gridSize = (bounds: ChunkBounds): [number, number] => [Math.ceil(bounds.width / CELL_SIZE), Math.ceil(bounds.depth / CELL_SIZE)];
+
+// Land, shallows and deep water of the cells over an area
+export const sampleTerrain = (terrain: Terrain, bounds: ChunkBounds): Uint8Array => {
+  const [cols, rows] = gridSize(bounds);
+  const cells = new Uint8Array(cols * rows);
+  for (let cz = 0; cz < rows; cz++) {
+    for (let cx = 0; cx < cols; cx++) {
+      const depth = WATER_LEVEL - terrain.height(cellCenter(cx, bounds.minX), cellCenter(cz, bounds.minZ));
+      cells[cz * cols + cx] = depth > WADING_DEPTH ? BLOCKED : depth > 0 ? WATER : 1;
+    }
+  }
+  return cells;
+};
+
+// `ground` is sampleTerrain over the same bounds; obstacles are stamped onto a copy of it
+export const buildNavGrid = (ground: Uint8Array, resources: ResourceNodeData[], structures: Structure[], bounds: ChunkBounds, version: number): NavGrid => {
+  const [cols, rows] = gridSize(bounds);
+  const { minX, minZ } = bounds;
+  const cells = Uint8Array.from(ground);
+
+  // Stamp every obstacle, grown by the walker's radius so paths keep clear of edges
+  const stamp = (x: number, z: number, radius: number) => {
+    const reach = radius + PLAYER_RADIUS;
+    const fromX = Math.max(0, Math.floor((x - reach - minX) / CELL_SIZE));
+    const toX = Math.min(cols - 1, Math.floor((x + reach - minX) / CELL_SIZE));
+    const fromZ = Math.max(0, Math.floor((z - reach - minZ) / CELL_SIZE));
+    const toZ = Math.min(rows - 1, Math.floor((z + reach - minZ) / CELL_SIZE));
+    for (let cz = fromZ; cz <= toZ; cz++) {
+      for (let cx = fromX; cx <= toX; cx++) {
+        if (Math.hypot(cellCenter(cx, minX) - x, cellCenter(cz, minZ) - z) < reach) cells[cz * cols + cx] = BLOCKED;
+      }
+    }
+  };
+  resources.forEach(r => {
+    if (r.health > 0 && r.type !== 'LOOSE_ITEM') stamp(r.position[0], r.position[2], nodeRadius(r));
+  });
+  structures.forEach(s => stamp(s.position[0], s.position[2], structureRadius(s)));
+
+  return { version, minX, minZ, cols, rows, cells };
+};
+
+// Binary min-heap of cell indices ordered by f score
+const createHeap = (score: Float32Array) => {
+  const items: number[] = [];
+  const up = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (score[items[parent]] <= score[items[i]]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  };
+  const down = (i: number) => {
+    for (;;) {
+      const l = i * 2 + 1;
+      const r = l + 1;
+      let smallest = i;
+      if (l < items.length && score[items[l]] < score[items[smallest]]) smallest = l;
+      if (r < items.length && score[items[r]] < score[items[smallest]]) smallest = r;
+      if (smallest === i) return;
+      [items[smallest], items[i]] = [items[i], items[smallest]];
+      i = smallest;
+    }
+  };
+  return {
+    size: () => items.length,
+    push: (cell: number) => { items.push(cell); up(items.length - 1); },
+    pop: (): number => {
+      const top = items[0];
+      const last = items.pop()!;
+      if (items.length > 0) { items[0] = last; down(0); }
+      return top;
+    }
+  };
+};
+
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, DIAGONAL], [1, -1, DIAGONAL], [-1, 1, DIAGONAL], [-1, -1, DIAGONAL]
+];
+
+// A* from (x, z) to any walkable cell within `reach` of (tx, tz).
+// Returns waypoints, or null if unreachable or either end lies outside the grid.
+export const findPath = (grid: NavGrid, x: number, z: number, tx: number, tz: number, reach: number): [number, number][] | null => {
+  const { cells, cols, rows, minX, minZ } = grid;
+  const startX = toCell(x, minX, cols);
+  const startZ = toCell(z, minZ, rows);
+  const goalX = toCell(tx, minX, cols);
+  const goalZ = toCell(tz, minZ, rows);
+  if (startX < 0 || startZ < 0 || goalX < 0 || goalZ < 0) return null;
+
+  const start = startZ * cols + startX;
+  const reachCells = reach / CELL_SIZE;
+
+  const gScore = new Float32Array(cells.length).fill(Infinity);
+  const fScore = new Float32Array(cells.length).fill(Infinity);
+  const cameFrom = new Int32Array(cells.length).fill(-1);
+  const closed = new Uint8Array(cells.length);
+
+  // Octile distance to the goal cell, minus the allowed reach
+  const heuristic = (cx: number, cz: number) => {
+    const dx = Math.abs(cx - goalX);
+    const dz = Math.abs(cz - goalZ);
+    return Math.max(0, dx + dz + (DIAGONAL - 2) * Math.min(dx, dz) - reachCells);
+  };
+
+  const open = createHeap(fScore);
+  gScore[start] = 0;
+  fScore[start] = heuristic(startX, startZ);
+  open.push(start);
+
+  let expansions = 0;
+  while (open.size() > 0 && expansions++ < MAX_EXPANSIONS) {
+    const current = open.pop();
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const cx = current % cols;
+    const cz = Math.floor(current / cols);
+    if (Math.hypot(cx - goalX, cz - goalZ) <= reachCells) {
+      const path: [number, number][] = [];
+      for (let c = current; c !== start; c = cameFrom[c]) {
+        path.push([cellCenter(c % cols, minX), cellCenter(Math.floor(c / cols), minZ)]);
+      }
+      return path.reverse();
+    }
+
+    for (const [dx, dz, stepCost] of NEIGHBOURS) {
+      const nx = cx + dx;
+      const nz = cz + dz;
+      if (nx < 0 || nz < 0 || nx >= cols || nz >= rows) continue;
+      const next = nz * cols + nx;
+      if (closed[next]) continue;
+      // Blocked cells are only passable while escaping the obstacle the walker started in
+      if (cells[next] === BLOCKED && !(cells[current] === BLOCKED && gScore[current] < ESCAPE_COST)) continue;
+      // No cutting corners past an obstacle
+      if (dx !== 0 && dz !== 0 && cells[current] !== BLOCKED && (cells[cz * cols + nx] === BLOCKED || cells[nz * cols + cx] === BLOCKED)) continue;
+
+      const tentative = gScore[current] + stepCost * (cells[next] === WATER ? WATER_COST : 1);
+      if (tentative < gScore[next]) {
+        cameFrom[next] = current;
+        gScore[next] = tentative;
+        fScore[next] = tentative + heuristic(nx, nz);
+        open.push(next);
+      }
+    }
+  }
+  return null;
+};
+
+interface CachedPath {
+  version: number;
+  goal: string; // Goal cell, a new goal means a new plan
+  waypoints: [number, number][] | null; // Null remembers an unreachable goal until something changes
+}
+
+export interface Navigator {
+  // Heading (radians, same convention as bot rotation) towards the next waypoint, or null if unreachable
+  headingFor: (agentId: string, x: number, z: number, tx: number, tz: number, reach: number) => number | null;
+  // Call when obstacles change: structures built or removed, nodes harvested or respawned, chunks streamed
+  invalidate: () => void;
+}
+
+interface NavWorld {
+  terrain: Terrain;
+  resources: ResourceNodeData[];
+  structures: Structure[];
+  bounds: ChunkBounds | null; // Area to cover, null before any chunk is loaded
+}
+
+export const createNavigator = (getWorld: () => NavWorld): Navigator => {
+  let grid: NavGrid | null = null;
+  let dirty = true;
+  let version = 0;
+  const paths = new Map<string, CachedPath>();
+
+  // Terrain only changes with the world, so its layer is resampled when the loaded area moves
+  let ground: { terrain: Terrain; key: string; cells: Uint8Array } | null = null;
+  const groundFor = (terrain: Terrain, bounds: ChunkBounds): Uint8Array => {
+    const key = `${bounds.minX},${bounds.minZ},${bounds.width},${bounds.depth}`;
+    if (ground?.terrain !== terrain || ground.key !== key) {
+      ground = { terrain, key, cells: sampleTerrain(terrain, bounds) };
+    }
+    return ground.cells;
+  };
+
+  const getGrid = (): NavGrid | null => {
+    if (dirty) {
+      const { terrain, resources, structures, bounds } = getWorld();
+      grid = bounds ? buildNavGrid(groundFor(terrain, bounds), resources, structures, bounds, ++version) : null;
+      dirty = false;
+      paths.clear();
+    }
+    return grid;
+  };
+
+  const headingFor = (agentId: string, x: number, z: number, tx: number, tz: number, reach: number): number | null => {
+    const navGrid = getGrid();
+    if (!navGrid) return null;
+    const goal = `${Math.floor(tx / CELL_SIZE)},${Math.floor(tz / CELL_SIZE)}`;
+    let cached = paths.get(agentId);
+
+    const next = cached?.waypoints?.[0];
+    const offPath = next && Math.hypot(next[0] - x, next[1] - z) > OFF_PATH_DISTANCE;
+    if (!cached || cached.version !== navGrid.version || cached.goal !== goal || offPath) {
+      cached = { version: navGrid.version, goal, waypoints: findPath(navGrid, x, z, tx, tz, reach) };
+      paths.set(agentId, cached);
+    }
+
+    const { waypoints } = cached;
+    if (!waypoints) return null;
+    while (waypoints.length > 0 && Math.hypot(waypoints[0][0] - x, waypoints[0][1] - z) < WAYPOINT_REACHED) {
+      waypoints.shift();
+    }
+    // Last stretch goes straight at the target
+    const [wx, wz] = waypoints[0] ?? [tx, tz];
+    return Math.atan2(wx - x, wz - z);
+  };
+
+  return {
+    headingFor,
+    invalidate: () => {
+      dirty = true;
+    }
+  };
+};
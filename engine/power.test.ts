@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, Structure } from '../types';
+import { computePower, isPowered } from './power';
+
+let nextId = 0;
+const at = (type: ItemType, x: number, overrides: Partial<Structure> = {}): Structure => ({
+  id: `${type}-${nextId++}`, type, position: [x, 0, 0], rotation: 0, health: 100, maxHealth: 100, ...overrides
+});
+
+const generator = (x: number, fuel = 5) => at(ItemType.COAL_GENERATOR, x, { fuel });
+const rig = (x: number, tier = 1) => at(ItemType.MINING_RIG, x, { tier });
+
+describe('power grid', () => {
+  it('links members in cable reach into one grid, transitively', () => {
+    const chain = [generator(0), rig(3), rig(6), rig(9)];
+    const status = computePower(chain, 1);
+    expect(status.grids).toHaveLength(1);
+    expect(status.grids[0].members).toHaveLength(4);
+    expect(status.links).toHaveLength(3);
+  });
+
+  it('keeps members out of reach on separate grids', () => {
+    const status = computePower([generator(0), rig(3), rig(20)], 1);
+    expect(status.grids).toHaveLength(2);
+    expect(status.gridOf.get(status.grids[0].members[0])).not.toBe(status.gridOf.get(status.grids[1].members[0]));
+  });
+
+  it('bridges long gaps with poles', () => {
+    const status = computePower([generator(0), at(ItemType.POWER_POLE, 3), at(ItemType.POWER_POLE, 15), rig(17)], 1);
+    expect(status.grids).toHaveLength(1);
+  });
+
+  it('powers rigs only while supply covers the whole demand', () => {
+    const gen = generator(0);
+    const cheap = [gen, rig(3), rig(-3)];
+    expect(computePower(cheap, 1).grids[0]).toMatchObject({ supply: 1200, demand: 600, powered: true });
+
+    const upgraded = [gen, rig(3, 3), rig(-3, 2)];
+    const status = computePower(upgraded, 1);
+    expect(status.grids[0]).toMatchObject({ demand: 1400, powered: false });
+    upgraded.forEach(s => expect(isPowered(status, s)).toBe(false));
+  });
+
+  it('runs generators on fuel and panels on daylight', () => {
+    expect(computePower([generator(0, 0), rig(3)], 1).grids[0].powered).toBe(false);
+
+    const solar = [at(ItemType.SOLAR_PANEL, 0), at(ItemType.SOLAR_PANEL, 2), rig(4)];
+    expect(computePower(solar, 1).grids[0].powered).toBe(true);
+    expect(computePower(solar, 0.2).grids[0].powered).toBe(false);
+  });
+
+  it('leaves bot structures off the player grids but running', () => {
+    const botRig = at(ItemType.MINING_RIG, 3, { ownerId: 'bot-0' });
+    const status = computePower([generator(0), botRig], 1);
+    expect(status.gridOf.has(botRig.id)).toBe(false);
+    expect(isPowered(status, botRig)).toBe(true);
+  });
+});
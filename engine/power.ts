@@ -0,0 +1,88 @@
+import { ItemType, Structure } from '../types';
+import { POWER_DATA } from '../data/power';
+import { rigTier } from './rigs';
+
+// --- Power Grid ---
+// The player's generators, panels, poles, rigs and coolers link up into grids by cable reach. Grids are
+// worked out from the structure list on demand, so nothing about them has to be saved.
+
+export interface PowerGrid {
+  members: string[]; // Structure ids
+  supply: number; // W available right now
+  demand: number; // W wanted by its rigs and coolers
+  powered: boolean; // Supply covers the whole demand
+}
+
+export interface PowerStatus {
+  grids: PowerGrid[];
+  gridOf: Map<string, PowerGrid>; // Structure id -> its grid
+  links: [Structure, Structure][]; // Cables to draw
+  supply: number;
+  demand: number;
+}
+
+// Bots' structures run off the network's own supply and never join a player grid
+const isGridMember = (s: Structure) => !s.ownerId && POWER_DATA[s.type] !== undefined;
+
+export const hasFuel = (s: Structure): boolean => (s.fuel ?? 0) > 0 || (s.burnLeft ?? 0) > 0;
+
+// What a structure feeds into its grid at the given daylight (0..1)
+export const structureSupply = (s: Structure, daylight: number): number => {
+  const def = POWER_DATA[s.type];
+  if (!def?.supply) return 0;
+  if (def.solar) return def.supply * daylight;
+  if (def.fuel) return hasFuel(s) ? def.supply : 0;
+  return def.supply;
+};
+
+// What a structure draws from its grid; rigs draw by tier
+export const structureDemand = (s: Structure): number =>
+  s.type === ItemType.MINING_RIG ? rigTier(s).demand : POWER_DATA[s.type]?.demand ?? 0;
+
+export const computePower = (structures: Structure[], daylight: number): PowerStatus => {
+  const members = structures.filter(isGridMember);
+
+  // Union-find over every pair in cable reach. Players build tens of these, not thousands.
+  const parent = members.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const links: [Structure, Structure][] = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const a = members[i];
+      const b = members[j];
+      const reach = Math.max(POWER_DATA[a.type]!.reach, POWER_DATA[b.type]!.reach);
+      if (Math.hypot(a.position[0] - b.position[0], a.position[2] - b.position[2]) > reach) continue;
+      links.push([a, b]);
+      parent[root(i)] = root(j);
+    }
+  }
+
+  const byRoot = new Map<number, PowerGrid>();
+  const gridOf = new Map<string, PowerGrid>();
+  members.forEach((s, i) => {
+    const r = root(i);
+    let grid = byRoot.get(r);
+    if (!grid) {
+      grid = { members: [], supply: 0, demand: 0, powered: false };
+      byRoot.set(r, grid);
+    }
+    grid.members.push(s.id);
+    grid.supply += structureSupply(s, daylight);
+    grid.demand += structureDemand(s);
+    gridOf.set(s.id, grid);
+  });
+
+  const grids = [...byRoot.values()];
+  grids.forEach(grid => { grid.powered = grid.demand > 0 && grid.supply >= grid.demand; });
+  return {
+    grids,
+    gridOf,
+    links,
+    supply: grids.reduce((sum, g) => sum + g.supply, 0),
+    demand: grids.reduce((sum, g) => sum + g.demand, 0)
+  };
+};
+
+// True for a consumer that may run: bots' structures always, the player's only on a powered grid
+export const isPowered = (status: PowerStatus, s: Structure): boolean =>
+  !!s.ownerId || (status.gridOf.get(s.id)?.powered ?? false);
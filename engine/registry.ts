@@ -0,0 +1,87 @@
+import { ItemDef, ItemType, Recipe, RecipeData } from '../types';
+import { ITEM_DATA } from '../data/items';
+import { RECIPE_DATA } from '../data/recipes';
+
+// --- Item & Recipe Registry ---
+// Single source for item metadata and recipes. Bad data fails loudly at startup
+// instead of surfacing later as a planner loop or a free item.
+
+export const ITEMS: Record<ItemType, ItemDef> = ITEM_DATA;
+
+export const ITEM_IDS = Object.keys(ITEMS) as ItemType[];
+
+export const isItemType = (id: string): id is ItemType => Object.prototype.hasOwnProperty.call(ITEMS, id);
+
+// Lookups fall back gracefully so a stale id never crashes the UI
+export const itemName = (id: string): string => isItemType(id) ? ITEMS[id].name : id;
+export const itemIcon = (id: string): string => isItemType(id) ? ITEMS[id].icon : '📦';
+export const itemColor = (id: string): string => isItemType(id) ? ITEMS[id].color : '#dddddd';
+
+export const itemsInCategory = (category: ItemDef['category']): ItemType[] => {
+  return ITEM_IDS.filter(id => ITEMS[id].category === category);
+};
+
+// Items that can be placed in the world
+export const isStructureItem = (id: string): id is ItemType => isItemType(id) && ITEMS[id].category === 'structure';
+
+const isPositiveInt = (n: number) => Number.isInteger(n) && n > 0;
+
+const validateItems = (): string[] => {
+  return ITEM_IDS
+    .filter(id => !isPositiveInt(ITEMS[id].stackSize))
+    .map(id => `Item ${id}: stack size must be a positive integer`);
+};
+
+// Depth-first search over output -> input edges; any back edge is a cycle
+const findCycles = (recipes: RecipeData[]): string[] => {
+  const byOutput = new Map(recipes.map(r => [r.output, r]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const errors: string[] = [];
+
+  const visit = (item: string, path: string[]) => {
+    if (state.get(item) === 'done') return;
+    if (state.get(item) === 'visiting') {
+      errors.push(`Recipe cycle: ${[...path.slice(path.indexOf(item)), item].join(' -> ')}`);
+      return;
+    }
+    const recipe = byOutput.get(item);
+    if (!recipe) return;
+
+    state.set(item, 'visiting');
+    recipe.inputs.forEach(input => visit(input.item, [...path, item]));
+    state.set(item, 'done');
+  };
+
+  recipes.forEach(r => visit(r.output, []));
+  return errors;
+};
+
+export const loadRecipes = (data: RecipeData[]): Recipe[] => {
+  const errors: string[] = validateItems();
+  const seen = new Set<string>();
+
+  data.forEach((recipe, i) => {
+    const label = `Recipe #${i} (${recipe.output})`;
+    if (!isItemType(recipe.output)) errors.push(`${label}: unknown output item`);
+    if (seen.has(recipe.output)) errors.push(`${label}: duplicate recipe for this output`);
+    seen.add(recipe.output);
+
+    if (!isPositiveInt(recipe.count)) errors.push(`${label}: output count must be a positive integer`);
+    if (!(recipe.craftTime >= 0)) errors.push(`${label}: craft time must not be negative`);
+    if (recipe.inputs.length === 0) errors.push(`${label}: has no inputs`);
+
+    recipe.inputs.forEach(input => {
+      if (!isItemType(input.item)) errors.push(`${label}: unknown input item "${input.item}"`);
+      if (!isPositiveInt(input.count)) errors.push(`${label}: input ${input.item} count must be a positive integer`);
+    });
+  });
+
+  errors.push(...findCycles(data));
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid game data:\n${errors.join('\n')}`);
+  }
+  return data as Recipe[];
+};
+
+export const RECIPES: Recipe[] = loadRecipes(RECIPE_DATA);
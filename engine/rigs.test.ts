@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, Structure } from '../types';
+import { RIG_TIERS } from '../data/rigs';
+import { fittedParts, nextRigTier, rigTier } from './rigs';
+import { createRigSite } from './testUtils';
+
+const RIG: Structure = { id: 'rig', type: ItemType.MINING_RIG, position: [0, 0, 0], rotation: 0, health: 100, maxHealth: 100 };
+
+describe('rig tiers', () => {
+  it('treats rigs without a tier as CPU rigs and clamps unknown tiers', () => {
+    expect(rigTier(RIG)).toBe(RIG_TIERS[0]);
+    expect(rigTier({ ...RIG, tier: 99 })).toBe(RIG_TIERS[RIG_TIERS.length - 1]);
+  });
+
+  it('knows the next tier up, and none past the top or for other structures', () => {
+    expect(nextRigTier(RIG)).toBe(RIG_TIERS[1]);
+    expect(nextRigTier({ ...RIG, tier: RIG_TIERS.length })).toBeNull();
+    expect(nextRigTier({ ...RIG, type: ItemType.WALL })).toBeNull();
+  });
+
+  it('lists every part fitted on the way up', () => {
+    expect(fittedParts(RIG)).toEqual([]);
+    expect(fittedParts({ ...RIG, tier: 3 })).toEqual([
+      { item: 'GPU', count: 2 },
+      { item: 'ASIC_CHIP', count: 2 },
+      { item: 'FRAME', count: 1 }
+    ]);
+  });
+
+  it('upgrades a rig with parts from the inventory and mines faster for it', () => {
+    const { engine, rig } = createRigSite();
+    const cpuRate = engine.getMiningRate(engine.getState());
+
+    engine.upgradeStructure(rig);
+    expect(engine.getState().logs[0]).toBe('Upgrade to GPU Rig needs 2x Graphics Card more');
+
+    engine.addToInventory(ItemType.GPU, 3);
+    engine.upgradeStructure(rig);
+    const state = engine.getState();
+    expect(state.structures.find(s => s.id === rig)!.tier).toBe(2);
+    expect(state.inventory[ItemType.GPU]).toBe(1);
+    expect(engine.getMiningRate(state)).toBeCloseTo(cpuRate * RIG_TIERS[1].hashRate);
+  });
+
+  it('hands the fitted parts back when the rig is picked up', () => {
+    const { engine, rig } = createRigSite();
+    engine.addToInventory(ItemType.GPU, 2);
+    engine.upgradeStructure(rig);
+    engine.pickupStructure(rig);
+    expect(engine.getState().inventory[ItemType.GPU]).toBe(2);
+    expect(engine.getState().inventory[ItemType.MINING_RIG]).toBe(1);
+  });
+});
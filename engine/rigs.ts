@@ -0,0 +1,16 @@
+import { ItemStack, ItemType, RigTierDef, Structure } from '../types';
+import { RIG_TIERS } from '../data/rigs';
+
+// --- Rig Tiers ---
+// Rigs are one structure type with a tier on top; saves from before tiers are all CPU rigs.
+
+export const rigTier = (rig: Structure): RigTierDef =>
+  RIG_TIERS[Math.min(Math.max(rig.tier ?? 1, 1), RIG_TIERS.length) - 1];
+
+// The tier an upgrade would reach, null at the top of the line
+export const nextRigTier = (rig: Structure): RigTierDef | null =>
+  rig.type === ItemType.MINING_RIG ? RIG_TIERS[rig.tier ?? 1] ?? null : null;
+
+// Upgrade parts fitted on top of the base rig, handed back when it is taken down
+export const fittedParts = (rig: Structure): ItemStack[] =>
+  rig.type === ItemType.MINING_RIG ? RIG_TIERS.slice(1, rig.tier ?? 1).flatMap(t => t.upgrade) : [];
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, Structure } from '../types';
+import { computeShelter, corrosionRate } from './shelter';
+
+const piece = (id: string, type: ItemType, position: [number, number, number]): Structure =>
+  ({ id, type, position, rotation: 0, health: 100, maxHealth: 100 });
+
+const rigAt = (y: number) => piece('rig', ItemType.MINING_RIG, [0, y, 0]);
+
+describe('shelter', () => {
+  it('covers a rig with a roof overhead', () => {
+    const shelter = computeShelter([rigAt(0), piece('roof', ItemType.ROOF, [1, 4, 0])]);
+    expect(shelter.get('rig')).toBe('ROOFED');
+  });
+
+  it('leaves a rig out in the rain with no roof in reach', () => {
+    expect(computeShelter([rigAt(0), piece('roof', ItemType.ROOF, [4, 4, 0])]).get('rig')).toBe('EXPOSED');
+  });
+
+  it('ignores roofs below the rig or far above it', () => {
+    expect(computeShelter([rigAt(5), piece('roof', ItemType.ROOF, [0, 4, 0])]).get('rig')).toBe('EXPOSED');
+    expect(computeShelter([rigAt(0), piece('roof', ItemType.ROOF, [0, 20, 0])]).get('rig')).toBe('EXPOSED');
+  });
+
+  it('does not need walls to keep the rain off', () => {
+    expect(corrosionRate('ROOFED')).toBe(0);
+    expect(corrosionRate('EXPOSED')).toBeGreaterThan(0);
+  });
+});
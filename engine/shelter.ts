@@ -0,0 +1,35 @@
+import { ItemType, Structure } from '../types';
+import { createSpatialHash, SpatialHash } from './spatial';
+
+// --- Shelter ---
+// Whether something is covered from acid rain: a roof not too far overhead keeps it off entirely.
+
+export type Shelter = 'EXPOSED' | 'ROOFED';
+
+const ROOF_RADIUS = 2.5; // m, a roof this close overhead covers the spot
+const ROOF_HEIGHT = 8; // m, highest a roof may sit above the spot and still cover it (two storeys)
+
+const CORROSION_RATE = 1 / 90; // Share of a rig eaten per second out in the rain
+
+export const shelterAt = (hash: SpatialHash<Structure>, x: number, y: number, z: number): Shelter => {
+  const roofed = hash.query(x, z, ROOF_RADIUS).some(s => s.type === ItemType.ROOF &&
+    Math.hypot(s.position[0] - x, s.position[2] - z) <= ROOF_RADIUS &&
+    s.position[1] > y && s.position[1] - y <= ROOF_HEIGHT);
+  return roofed ? 'ROOFED' : 'EXPOSED';
+};
+
+export const isCovered = (shelter: Shelter): boolean => shelter !== 'EXPOSED';
+
+// Shelter of every rig, worked out from the structure list like the power grids
+export const computeShelter = (structures: Structure[]): Map<string, Shelter> => {
+  const hash = createSpatialHash<Structure>(s => [s.position[0], s.position[2]]);
+  structures
+    .filter(s => s.type === ItemType.ROOF)
+    .forEach(s => hash.insert(s, s.position[0], s.position[2]));
+  return new Map(structures
+    .filter(s => s.type === ItemType.MINING_RIG)
+    .map(rig => [rig.id, shelterAt(hash, rig.position[0], rig.position[1], rig.position[2])] as const));
+};
+
+// Share of a rig the rain eats per second under the given cover
+export const corrosionRate = (shelter: Shelter): number => isCovered(shelter) ? 0 : CORROSION_RATE;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, ResourceNodeData } from '../types';
+import { createSpatialHash, createWorldIndex, findNearestNode } from './spatial';
+
+type Point = { id: string; x: number; z: number };
+
+const pointHash = (points: Point[]) => {
+  const hash = createSpatialHash<Point>(p => [p.x, p.z]);
+  points.forEach(p => hash.insert(p, p.x, p.z));
+  return hash;
+};
+
+const node = (id: string, x: number, z: number, overrides: Partial<ResourceNodeData> = {}): ResourceNodeData => ({
+  id, type: 'STONE', position: [x, 0, z], health: 50, maxHealth: 50, drop: ItemType.STONE, color: '#888888', ...overrides
+});
+
+describe('spatial hash', () => {
+  it('finds exactly the items within the radius, across cell borders and negative coordinates', () => {
+    const points = [
+      { id: 'near', x: 7.9, z: 0 },
+      { id: 'over-border', x: 8.1, z: 0 },
+      { id: 'negative', x: -3, z: -4 },
+      { id: 'edge', x: 0, z: 10 },
+      { id: 'far', x: 40, z: 40 }
+    ];
+    const found = pointHash(points).query(0, 0, 10).map(p => p.id).sort();
+    expect(found).toEqual(['edge', 'near', 'negative', 'over-border']);
+  });
+
+  it('matches a brute-force scan', () => {
+    const points = Array.from({ length: 300 }, (_, i) => ({ id: `p${i}`, x: ((i * 37) % 101) - 50, z: ((i * 53) % 97) - 48 }));
+    const hash = pointHash(points);
+    expect(hash.size()).toBe(300);
+    [[0, 0, 5], [-20, 30, 12], [45, -45, 20]].forEach(([x, z, r]) => {
+      const expected = points.filter(p => Math.hypot(p.x - x, p.z - z) <= r).map(p => p.id).sort();
+      expect(hash.query(x, z, r).map(p => p.id).sort()).toEqual(expected);
+    });
+  });
+});
+
+describe('world index', () => {
+  it('only indexes standing nodes and reuses the hash until the array changes', () => {
+    const index = createWorldIndex();
+    const resources = [
+      node('rock', 1, 1),
+      node('mined', 2, 2, { health: 0 }),
+      node('pile', 3, 3, { type: 'LOOSE_ITEM' })
+    ];
+    const hash = index.nodes(resources);
+    expect(hash.query(0, 0, 10).map(n => n.id)).toEqual(['rock']);
+    expect(index.nodes(resources)).toBe(hash);
+    expect(index.nodes([...resources])).not.toBe(hash);
+    expect(index.nodeById(resources, 'pile')?.id).toBe('pile');
+  });
+
+  it('picks the nearest node that passes the filter', () => {
+    const hash = createWorldIndex().nodes([node('a', 5, 0), node('b', 2, 0, { type: 'TREE' }), node('c', 30, 0)]);
+    expect(findNearestNode(hash, 0, 0, 10)?.id).toBe('b');
+    expect(findNearestNode(hash, 0, 0, 10, n => n.type === 'STONE')?.id).toBe('a');
+    expect(findNearestNode(hash, 0, 0, 4, n => n.type === 'STONE')).toBeUndefined();
+  });
+});
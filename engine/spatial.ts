@@ -0,0 +1,115 @@
+import { AIPlayer, ResourceNodeData, Structure } from '../types';
+
+// --- Spatial Index ---
+// Uniform grid hash over the XZ plane. Lookups only visit the cells a query circle overlaps,
+// so collision and "what's near me" stay cheap with thousands of entities in the world.
+
+const CELL_SIZE = 8; // m, a few obstacle radii per cell
+
+export interface SpatialHash<T> {
+  insert: (item: T, x: number, z: number) => void;
+  // Every item whose anchor lies within `radius` of (x, z)
+  query: (x: number, z: number, radius: number) => T[];
+  size: () => number;
+}
+
+const cellKey = (cx: number, cz: number) => `${cx},${cz}`;
+const toCell = (v: number) => Math.floor(v / CELL_SIZE);
+
+export const createSpatialHash = <T>(getPos: (item: T) => [number, number]): SpatialHash<T> => {
+  const cells = new Map<string, T[]>();
+  let count = 0;
+
+  const insert = (item: T, x: number, z: number) => {
+    const key = cellKey(toCell(x), toCell(z));
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(item);
+    else cells.set(key, [item]);
+    count++;
+  };
+
+  const query = (x: number, z: number, radius: number): T[] => {
+    const found: T[] = [];
+    const r2 = radius * radius;
+    for (let cz = toCell(z - radius); cz <= toCell(z + radius); cz++) {
+      for (let cx = toCell(x - radius); cx <= toCell(x + radius); cx++) {
+        cells.get(cellKey(cx, cz))?.forEach(item => {
+          const [ix, iz] = getPos(item);
+          if ((ix - x) * (ix - x) + (iz - z) * (iz - z) <= r2) found.push(item);
+        });
+      }
+    }
+    return found;
+  };
+
+  return { insert, query, size: () => count };
+};
+
+// --- World Index ---
+// Engine state is immutable, so each layer is rebuilt lazily whenever its source array is replaced
+// and reused by every lookup until then. Only standing nodes are indexed: loose piles don't block
+// and harvested nodes are parked out of the world until they respawn.
+
+const isSolidNode = (r: ResourceNodeData) => r.health > 0 && r.type !== 'LOOSE_ITEM';
+
+const memoByArray = <T, R>(build: (items: T[]) => R) => {
+  let source: T[] | null = null;
+  let built: R;
+  return (items: T[]): R => {
+    if (items !== source) {
+      source = items;
+      built = build(items);
+    }
+    return built;
+  };
+};
+
+const buildHash = <T>(items: T[], getPos: (item: T) => [number, number]): SpatialHash<T> => {
+  const hash = createSpatialHash(getPos);
+  items.forEach(item => {
+    const [x, z] = getPos(item);
+    hash.insert(item, x, z);
+  });
+  return hash;
+};
+
+const xz = <T extends { position: [number, number, number] }>(item: T): [number, number] => [item.position[0], item.position[2]];
+
+export interface WorldIndex {
+  nodes: (resources: ResourceNodeData[]) => SpatialHash<ResourceNodeData>;
+  structures: (structures: Structure[]) => SpatialHash<Structure>;
+  bots: (bots: AIPlayer[]) => SpatialHash<AIPlayer>;
+  nodeById: (resources: ResourceNodeData[], id: string) => ResourceNodeData | undefined;
+}
+
+export const createWorldIndex = (): WorldIndex => {
+  const nodes = memoByArray((resources: ResourceNodeData[]) => buildHash(resources.filter(isSolidNode), xz));
+  const nodeIds = memoByArray((resources: ResourceNodeData[]) => new Map(resources.map(r => [r.id, r])));
+  return {
+    nodes,
+    structures: memoByArray((structures: Structure[]) => buildHash(structures, xz)),
+    bots: memoByArray((bots: AIPlayer[]) => buildHash(bots, xz)),
+    nodeById: (resources, id) => nodeIds(resources).get(id)
+  };
+};
+
+// Closest standing node within maxDist that passes the filter, or undefined
+export const findNearestNode = (
+  hash: SpatialHash<ResourceNodeData>,
+  x: number,
+  z: number,
+  maxDist: number,
+  filter: (node: ResourceNodeData) => boolean = () => true
+): ResourceNodeData | undefined => {
+  let best: ResourceNodeData | undefined;
+  let bestDist = Infinity;
+  hash.query(x, z, maxDist).forEach(node => {
+    if (!filter(node)) return;
+    const d = Math.hypot(node.position[0] - x, node.position[2] - z);
+    if (d < bestDist) {
+      best = node;
+      bestDist = d;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { createBuildSite, SITE_X as X, SITE_Z as Z } from './testUtils';
+import { MIN_STABILITY } from './stability';
+
+describe('stability', () => {
+  it('loses stability the further a piece reaches from the ground', () => {
+    const { engine, ground, place } = createBuildSite();
+    place(ItemType.FOUNDATION, [X, ground, Z]);
+    place(ItemType.WALL, [X, ground + 0.5, Z + 1.5]);
+    place(ItemType.WALL, [X, ground + 3.5, Z + 1.5]);
+    const stability = engine.getStability(engine.getState());
+    const [low, high] = engine.getState().structures
+      .filter(s => s.type === ItemType.WALL)
+      .sort((a, b) => a.position[1] - b.position[1])
+      .map(s => stability.get(s.id)!);
+    expect(high).toBeLessThan(low);
+    expect(high).toBeGreaterThanOrEqual(MIN_STABILITY);
+  });
+
+  it('refuses roofs reaching too far out from their walls', () => {
+    const { engine, ground, place } = createBuildSite();
+    place(ItemType.FOUNDATION, [X, ground, Z]);
+    place(ItemType.WALL, [X, ground + 0.5, Z + 1.5]);
+    let placed = 0;
+    for (let i = 0; i < 8 && place(ItemType.ROOF, [X, ground + 4, Z - 3 * i]); i++) placed++;
+    expect(placed).toBeGreaterThan(0);
+    expect(placed).toBeLessThan(8);
+    expect(engine.getState().logs[0]).toContain('not enough support');
+  });
+
+  it('brings down walls stacked on one that is taken away', () => {
+    const { engine, ground, place, count } = createBuildSite();
+    place(ItemType.FOUNDATION, [X, ground, Z]);
+    for (let i = 0; i < 3; i++) place(ItemType.WALL, [X, ground + 0.5 + 3 * i, Z + 1.5]);
+    expect(count(ItemType.WALL)).toBe(3);
+
+    const bottom = engine.getState().structures
+      .filter(s => s.type === ItemType.WALL)
+      .reduce((a, b) => (a.position[1] < b.position[1] ? a : b));
+    engine.pickupStructure(bottom.id);
+    expect(count(ItemType.WALL)).toBe(0);
+    expect(engine.getState().logs[0]).toBe('2 unsupported pieces collapsed!');
+  });
+
+  it('brings down the walls and roof of a room whose foundation is demolished', () => {
+    const { engine, ground, place, count } = createBuildSite();
+    place(ItemType.FOUNDATION, [X, ground, Z]);
+    place(ItemType.WALL, [X, ground + 0.5, Z + 1.5]);
+    place(ItemType.WALL, [X, ground + 0.5, Z - 1.5]);
+    place(ItemType.WALL, [X + 1.5, ground + 0.5, Z], Math.PI / 2);
+    place(ItemType.WALL, [X - 1.5, ground + 0.5, Z], Math.PI / 2);
+    place(ItemType.ROOF, [X, ground + 4, Z]);
+    expect(count(ItemType.WALL)).toBe(4);
+    expect(count(ItemType.ROOF)).toBe(1);
+
+    const foundation = engine.getState().structures.find(s => s.type === ItemType.FOUNDATION)!;
+    while (engine.getState().structures.some(s => s.id === foundation.id)) engine.hitStructure(foundation.id);
+    expect(count(ItemType.WALL)).toBe(0);
+    expect(count(ItemType.ROOF)).toBe(0);
+  });
+
+  it('keeps walls laid on bare ground standing on their own', () => {
+    const { engine, ground, place, count } = createBuildSite();
+    expect(place(ItemType.WALL, [X, ground, Z])).toBe(true);
+    const [wall] = engine.getState().structures;
+    expect(engine.getStability(engine.getState()).get(wall.id)).toBeGreaterThanOrEqual(MIN_STABILITY);
+    expect(count(ItemType.WALL)).toBe(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { ResourceNodeData, Structure } from '../types';
+import { createSpatialHash, SpatialHash } from './spatial';
+import { Terrain } from './terrain';
+import { distance3D, placementProblem, socketsOf, standsOnGround, structureDef, Piece, SOCKET_MATCH } from './building';
+
+// --- Structural Stability ---
+// Building pieces form a graph through their sockets. Foundations stand on the ground; walls and
+// roofs hold up only as well as the best piece they are attached to, minus a loss for every metre
+// they reach out from it. Worked out from the structure list on demand, like the power grids.
+
+export const MIN_STABILITY = 10; // Below this a piece can't be placed and comes down
+const LINK_RANGE = 5; // m, farther than any socket sits from its host
+
+export const isBuildingPiece = (piece: Piece): boolean => structureDef(piece.type).sockets !== undefined;
+
+// Pieces attached to this one, whichever of the two the socket belongs to
+const linkedPieces = (hash: SpatialHash<Structure>, piece: Piece): Structure[] => {
+  const own = socketsOf(piece);
+  return hash.query(piece.position[0], piece.position[2], LINK_RANGE).filter(other => other !== piece && isBuildingPiece(other) && (
+    socketsOf(other).some(s => s.accepts.includes(piece.type) && distance3D(s.position, piece.position) < SOCKET_MATCH) ||
+    own.some(s => s.accepts.includes(other.type) && distance3D(s.position, other.position) < SOCKET_MATCH)
+  ));
+};
+
+const groundStability = (terrain: Terrain, piece: Piece): number => standsOnGround(terrain, piece) ? structureDef(piece.type).groundStability ?? 0 : 0;
+
+// What a piece keeps of its support's stability across the distance between them
+const carried = (piece: Piece, support: Piece, supportStability: number): number =>
+  supportStability - (structureDef(piece.type).stabilityLoss ?? 0) * distance3D(piece.position, support.position);
+
+// Stability of every building piece. Spreads out from the ground until nothing improves.
+export const computeStability = (terrain: Terrain, structures: Structure[]): Map<string, number> => {
+  const pieces = structures.filter(isBuildingPiece);
+  const hash = createSpatialHash<Structure>(s => [s.position[0], s.position[2]]);
+  pieces.forEach(s => hash.insert(s, s.position[0], s.position[2]));
+
+  const links = new Map(pieces.map(p => [p.id, linkedPieces(hash, p)]));
+  const stability = new Map(pieces.map(p => [p.id, groundStability(terrain, p)]));
+  const queue = pieces.filter(p => stability.get(p.id)! > 0);
+  while (queue.length > 0) {
+    const support = queue.pop()!;
+    links.get(support.id)!.forEach(piece => {
+      const value = carried(piece, support, stability.get(support.id)!);
+      if (value > stability.get(piece.id)!) {
+        stability.set(piece.id, value);
+        queue.push(piece);
+      }
+    });
+  }
+  return stability;
+};
+
+// What a new piece would get from the ground and the pieces already standing
+export const stabilityAt = (terrain: Terrain, hash: SpatialHash<Structure>, stability: Map<string, number>, piece: Piece): number =>
+  linkedPieces(hash, piece).reduce(
+    (best, support) => Math.max(best, carried(piece, support, stability.get(support.id) ?? 0)),
+    groundStability(terrain, piece)
+  );
+
+// Why a piece can't be built: no room or ground for it, or nothing to hold it up. Null when it can.
+export const buildProblem = (
+  terrain: Terrain,
+  structures: SpatialHash<Structure>,
+  nodes: SpatialHash<ResourceNodeData>,
+  stability: Map<string, number>,
+  piece: Piece
+): string | null => {
+  const problem = placementProblem(terrain, structures, nodes, piece.type, piece.position, piece.rotation);
+  if (problem) return problem;
+  if (isBuildingPiece(piece) && stabilityAt(terrain, structures, stability, piece) < MIN_STABILITY) return "not enough support";
+  return null;
+};
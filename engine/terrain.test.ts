@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { createGameEngine } from './GameEngine';
+import { createTerrain } from './terrain';
+
+describe('terrain', () => {
+  it('grows the same ground from the same seed', () => {
+    const a = createTerrain('hills');
+    const b = createTerrain('hills');
+    const other = createTerrain('plains');
+    expect(a.height(40, -25)).toBe(b.height(40, -25));
+    expect(a.biome(40, -25)).toBe(b.biome(40, -25));
+    expect(a.height(40, -25)).not.toBe(other.height(40, -25));
+  });
+
+  it('keeps the spawn above water', () => {
+    expect(createTerrain('any').height(0, 0)).toBeGreaterThanOrEqual(1);
+  });
+
+  it('belongs to each engine, so a second world leaves the first alone', () => {
+    const first = createGameEngine({ random: () => 0.5 });
+    first.newWorld('hills');
+    const ground = first.getTerrain().height(30, 30);
+
+    const second = createGameEngine({ random: () => 0.5 });
+    second.newWorld('plains');
+    expect(second.getTerrain().height(30, 30)).not.toBe(ground);
+    // Pieces aimed at the first world still land on its ground
+    expect(first.snapPlacement(ItemType.FOUNDATION, [30, 0, 30], 0).position[1]).toBe(ground);
+  });
+});
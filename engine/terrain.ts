@@ -0,0 +1,69 @@
+import { BiomeId } from '../types';
+import { createSimplex, fbm } from '../utils/noise';
+
+// --- Terrain Utility ---
+// Shared by mesh generation, physics, bots and world generation so they always agree.
+// Everything derives from the world seed; each engine makes the terrain of the world it runs.
+export const WATER_LEVEL = -3;
+
+const HEIGHT_SCALE = 1 / 140; // Noise units per metre for the landforms
+const HEIGHT_AMPLITUDE = 14; // m
+const HEIGHT_BIAS = 2; // Lifts the median above the water line
+const SPAWN_RADIUS = 20; // Ground around the world spawn is kept dry
+const SPAWN_MIN_HEIGHT = 1;
+
+const CLIMATE_SCALE = 1 / 350; // Biomes span a few hundred metres
+const SHORE_HEIGHT = WATER_LEVEL + 1.5; // Beach and shallows up to here
+const HIGHLAND_HEIGHT = 8;
+export const WADING_DEPTH = 1.2; // m of water a bot can still walk through
+
+export interface Terrain {
+  seed: string;
+  height: (x: number, z: number) => number;
+  // Too deep to wade: the player has to swim and bots stay out
+  isDeepWater: (x: number, z: number) => boolean;
+  biome: (x: number, z: number, height?: number) => BiomeId;
+  // Small-scale variation in [0, 1] for blending ground colours
+  detail: (x: number, z: number) => number;
+}
+
+export const createTerrain = (seed: string): Terrain => {
+  const heightNoise = createSimplex(`${seed}:height`);
+  const moistureNoise = createSimplex(`${seed}:moisture`);
+  const temperatureNoise = createSimplex(`${seed}:temperature`);
+  const detailNoise = createSimplex(`${seed}:detail`);
+
+  const height = (x: number, z: number): number => {
+    const raw = fbm(heightNoise, x * HEIGHT_SCALE, z * HEIGHT_SCALE, 5) * HEIGHT_AMPLITUDE + HEIGHT_BIAS;
+
+    // Ease the spawn area above the water so a new player never starts in a lake
+    const spawn = Math.max(0, 1 - Math.hypot(x, z) / SPAWN_RADIUS);
+    if (spawn > 0 && raw < SPAWN_MIN_HEIGHT) {
+      const blend = spawn * spawn * (3 - 2 * spawn);
+      return raw + (SPAWN_MIN_HEIGHT - raw) * blend;
+    }
+    return raw;
+  };
+
+  // Moisture and temperature, both in [0, 1]
+  const climate = (x: number, z: number) => ({
+    moisture: (fbm(moistureNoise, x * CLIMATE_SCALE, z * CLIMATE_SCALE, 3) + 1) / 2,
+    temperature: (fbm(temperatureNoise, x * CLIMATE_SCALE, z * CLIMATE_SCALE, 3) + 1) / 2
+  });
+
+  const biome = (x: number, z: number, h: number = height(x, z)): BiomeId => {
+    if (h < SHORE_HEIGHT) return 'SHORELINE';
+    const { moisture, temperature } = climate(x, z);
+    if (h > HIGHLAND_HEIGHT || temperature < 0.3) return 'HIGHLANDS';
+    if (moisture < 0.45 && temperature > 0.5) return 'WASTELAND';
+    return 'FOREST';
+  };
+
+  return {
+    seed,
+    height,
+    isDeepWater: (x, z) => height(x, z) < WATER_LEVEL - WADING_DEPTH,
+    biome,
+    detail: (x, z) => (detailNoise(x * 0.08, z * 0.08) + 1) / 2
+  };
+};
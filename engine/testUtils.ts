@@ -0,0 +1,38 @@
+import { ItemType } from '../types';
+import { createGameEngine } from './GameEngine';
+
+// --- Test Helpers ---
+// Shared setup for the engine tests. Not part of the game.
+
+// A clear, flat spot in the 'build-test' world
+export const SITE_X = 6;
+export const SITE_Z = 120;
+
+// An engine in the 'build-test' world with a stock of building pieces, and shortcuts for
+// aiming pieces at a spot the way the build ghost does
+export const createBuildSite = (stock = 20) => {
+  const engine = createGameEngine({ random: () => 0.5 });
+  engine.newWorld('build-test');
+  [ItemType.FOUNDATION, ItemType.WALL, ItemType.ROOF].forEach(type => engine.addToInventory(type, stock));
+  const ground = engine.getTerrain().height(SITE_X, SITE_Z);
+  const place = (type: ItemType, aim: [number, number, number], rotation = 0) => {
+    const { position, rotation: turned } = engine.snapPlacement(type, aim, rotation);
+    return engine.placeStructure(type, position, turned);
+  };
+  const count = (type: ItemType) => engine.getState().structures.filter(s => s.type === type).length;
+  return { engine, ground, place, count };
+};
+
+// The build site with one player rig running off a coal generator loaded with `coal`
+export const createRigSite = (coal = 5) => {
+  const site = createBuildSite();
+  const { engine, ground, place } = site;
+  engine.addToInventory(ItemType.COAL_GENERATOR, 1);
+  engine.addToInventory(ItemType.MINING_RIG, 1);
+  engine.addToInventory(ItemType.COAL, coal);
+  place(ItemType.COAL_GENERATOR, [SITE_X, ground, SITE_Z]);
+  place(ItemType.MINING_RIG, [SITE_X + 2, ground, SITE_Z]);
+  const [generator, rig] = engine.getState().structures;
+  if (coal > 0) engine.fuelStructure(generator.id);
+  return { ...site, generator: generator.id, rig: rig.id };
+};
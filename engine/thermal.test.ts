@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType, Structure } from '../types';
+import { createTerrain } from './terrain';
+import { ambientTemperature, stepRigHeat, thermalThrottle, SHUTDOWN_TEMP, THROTTLE_TEMP } from './thermal';
+import { createRigSite, SITE_X, SITE_Z } from './testUtils';
+
+const RIG: Structure = { id: 'rig', type: ItemType.MINING_RIG, position: [0, 0, 0], rotation: 0, health: 100, maxHealth: 100 };
+const CALM = { ambient: 20, heat: 0, neighbourHeat: 0, cooling: 0 };
+
+// Runs one rig for `seconds` in one-second steps
+const run = (rig: Structure, inputs: typeof CALM, seconds: number) => {
+  let current = rig;
+  for (let i = 0; i < seconds; i++) current = stepRigHeat(current, inputs, 1);
+  return current;
+};
+
+describe('rig thermals', () => {
+  it('starts at ambient and settles where heating and losses balance', () => {
+    expect(stepRigHeat(RIG, CALM, 1).temperature).toBe(20);
+    // 2 °C/s against 0.05 per °C settles 40 °C above ambient
+    expect(run(RIG, { ...CALM, heat: 2 }, 400).temperature).toBeCloseTo(60, 0);
+  });
+
+  it('runs hotter next to other rigs and cooler with a cooler', () => {
+    const alone = run(RIG, { ...CALM, heat: 2 }, 400).temperature!;
+    const crowded = run(RIG, { ...CALM, heat: 2, neighbourHeat: 4 }, 400).temperature!;
+    const cooled = run(RIG, { ...CALM, heat: 2, cooling: 0.08 }, 400).temperature!;
+    expect(crowded).toBeGreaterThan(alone);
+    expect(cooled).toBeLessThan(alone);
+  });
+
+  it('trips at the shutdown temperature and comes back once cooled down', () => {
+    const tripped = stepRigHeat({ ...RIG, temperature: SHUTDOWN_TEMP - 0.5 }, { ...CALM, ambient: SHUTDOWN_TEMP, heat: 1 }, 1);
+    expect(tripped.overheated).toBe(true);
+    expect(thermalThrottle(tripped)).toBe(0);
+
+    const stillHot = stepRigHeat({ ...tripped, temperature: 70 }, CALM, 1);
+    expect(stillHot.overheated).toBe(true);
+    expect(run(stillHot, CALM, 60).overheated).toBe(false);
+  });
+
+  it('throttles output above the throttle temperature', () => {
+    expect(thermalThrottle({ ...RIG, temperature: THROTTLE_TEMP })).toBe(1);
+    const warm = thermalThrottle({ ...RIG, temperature: (THROTTLE_TEMP + SHUTDOWN_TEMP) / 2 });
+    expect(warm).toBeLessThan(1);
+    expect(warm).toBeGreaterThan(thermalThrottle({ ...RIG, temperature: SHUTDOWN_TEMP - 1 }));
+  });
+
+  it('is colder at night than at noon', () => {
+    const terrain = createTerrain('thermal-test');
+    expect(ambientTemperature(terrain, 0, 0, 0)).toBeLessThan(ambientTemperature(terrain, 0, 0, 0.5));
+  });
+
+  it('heats a working rig in the engine and keeps a fanned one cooler', () => {
+    const bare = createRigSite();
+    const fanned = createRigSite();
+    fanned.engine.addToInventory(ItemType.FAN, 1);
+    expect(fanned.place(ItemType.FAN, [SITE_X + 2, fanned.ground, SITE_Z + 3])).toBe(true);
+
+    const temperature = ({ engine, rig }: typeof bare) => {
+      for (let i = 0; i < 60; i++) engine.tick(1);
+      return engine.getState().structures.find(s => s.id === rig)!.temperature!;
+    };
+    const hot = temperature(bare);
+    expect(hot).toBeGreaterThan(ambientTemperature(bare.engine.getTerrain(), SITE_X, SITE_Z, bare.engine.getState().timeOfDay));
+    expect(temperature(fanned)).toBeLessThan(hot);
+  });
+});
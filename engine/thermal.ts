@@ -0,0 +1,49 @@
+import { Structure } from '../types';
+import { BIOME_DATA } from '../data/biomes';
+import { Terrain } from './terrain';
+import { daylight } from './daycycle';
+
+// --- Rig Thermals ---
+// Every rig runs a simple heat balance each step: its own work (and part of that of rigs right
+// next to it) heats it up, the air and any coolers in range pull it back towards ambient.
+
+const NEIGHBOUR_SHARE = 0.3; // Part of a nearby rig's heat that reaches its neighbours
+export const NEIGHBOUR_RADIUS = 4; // m, a 3m build grid puts rigs side by side well within this
+const PASSIVE_COOLING = 0.05; // Heat transfer per °C above ambient with no cooler
+const NIGHT_CHILL = 8; // °C colder at night than at midday
+
+export const THROTTLE_TEMP = 70; // °C, output starts dropping
+export const SHUTDOWN_TEMP = 95; // °C, the rig trips and switches itself off
+const RESTART_TEMP = 60; // °C, a tripped rig comes back once below this
+const MIN_THROTTLE = 0.25; // Output share just before tripping
+
+export const ambientTemperature = (terrain: Terrain, x: number, z: number, timeOfDay: number): number =>
+  BIOME_DATA[terrain.biome(x, z)].temperature - NIGHT_CHILL * (1 - daylight(timeOfDay));
+
+// Share of full output a rig manages at its temperature
+export const thermalThrottle = (rig: Structure): number => {
+  if (rig.overheated) return 0;
+  const t = rig.temperature ?? 0;
+  if (t <= THROTTLE_TEMP) return 1;
+  return Math.max(MIN_THROTTLE, 1 - (1 - MIN_THROTTLE) * (t - THROTTLE_TEMP) / (SHUTDOWN_TEMP - THROTTLE_TEMP));
+};
+
+export interface HeatInputs {
+  ambient: number; // °C
+  heat: number; // °C/s this rig produces at its current work rate
+  neighbourHeat: number; // Summed heat of the rigs within NEIGHBOUR_RADIUS
+  cooling: number; // Share of coolers' capacity this rig receives
+}
+
+// Advances one rig by dt seconds
+export const stepRigHeat = (rig: Structure, { ambient, heat, neighbourHeat, cooling }: HeatInputs, dt: number): Structure => {
+  const current = rig.temperature ?? ambient;
+  const heating = heat + NEIGHBOUR_SHARE * neighbourHeat;
+  const transfer = (PASSIVE_COOLING + cooling) * (current - ambient);
+  const temperature = current + (heating - transfer) * dt;
+
+  let overheated = rig.overheated ?? false;
+  if (temperature >= SHUTDOWN_TEMP) overheated = true;
+  else if (temperature < RESTART_TEMP) overheated = false;
+  return { ...rig, temperature, overheated };
+};
@@ -0,0 +1,58 @@
+import { AIPlayer, CraftJob, GameEvent, ResourceNodeData, Structure } from '../types';
+import { SavedTimer } from './clock';
+
+// x, y, z, dirX, dirZ
+export type PlayerPose = [number, number, number, number, number];
+
+// Everything needed to rebuild a world (persisted by saveService)
+export interface WorldSnapshot {
+  seed: string;
+  botSpawns: number; // Bots generated so far, keys the seeded stream for the next respawn
+  inventory: Record<string, number>;
+  money: number;
+  globalPot: number;
+  ownerBalance: number;
+  resources: ResourceNodeData[]; // Nodes of the loaded chunks only
+  loadedChunks: string[]; // Chunk keys around the player, see chunks.ts
+  storedChunks: Record<string, ResourceNodeData[]>; // Nodes of every visited chunk that isn't loaded
+  structures: Structure[];
+  aiPlayers: AIPlayer[];
+  craftQueue: CraftJob[];
+  playerPos: PlayerPose;
+  playerHealth: number; // 0 while dead and waiting to respawn
+  playerBreath: number; // Seconds of air left, drains while the head is underwater
+  activeEvent: GameEvent; // Weather only, sponsor breaks are never saved
+  timeOfDay: number; // 0..1 from midnight, see daycycle.ts
+  dayLength: number; // s of game time per full day
+  timers: SavedTimer[]; // Pending world timers (respawns, storm end)
+}
+
+// Immutable view published to subscribers. A new object is created on every change.
+export interface EngineState extends Omit<WorldSnapshot, 'playerPos' | 'timers' | 'storedChunks'> {
+  epoch: number; // Bumped whenever the player is teleported (world loaded or generated, respawn)
+  paused: boolean;
+  timeScale: number;
+  marketModifier: number;
+  marketHeadline: string;
+  logs: string[];
+}
+
+// Where a dead player can come back. 'world' is always available.
+export interface SpawnPoint {
+  id: string;
+  label: string;
+  position: [number, number, number];
+}
+
+export interface MarketNews {
+  headline: string;
+  modifier: number;
+}
+
+export interface EngineOptions {
+  // Gameplay randomness (bot decisions, weather rolls, drop scatter). Defaults to a stream drawn from
+  // the world seed, restarted whenever a world is started or loaded, so a seed always plays out the same.
+  random?: () => number;
+  // Market feed such as generateMarketNews. Without one the market stays flat.
+  fetchMarketNews?: (currentRate: number) => Promise<MarketNews>;
+}
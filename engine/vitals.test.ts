@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { GameEvent } from '../types';
+import { PLAYER_MAX_BREATH, PLAYER_MAX_HEALTH } from './GameEngine';
+import { WATER_LEVEL } from './terrain';
+import { createBuildSite, SITE_X as X, SITE_Z as Z } from './testUtils';
+
+// An engine with the player's head held under the surface
+const submerge = () => {
+  const { engine } = createBuildSite();
+  engine.setPlayerPos([X, WATER_LEVEL - 2, Z, 1, 0]);
+  return engine;
+};
+
+// The clock drops backlog past a few seconds, so long waits go in one-second steps
+const wait = (engine: ReturnType<typeof submerge>, seconds: number) => {
+  for (let i = 0; i < seconds; i++) engine.tick(1);
+};
+
+describe('player vitals', () => {
+  it('runs out of breath underwater, then drowns', () => {
+    const engine = submerge();
+    wait(engine, PLAYER_MAX_BREATH - 1);
+    expect(engine.getState().playerBreath).toBeGreaterThan(0);
+    expect(engine.getState().playerHealth).toBe(PLAYER_MAX_HEALTH);
+
+    wait(engine, 2);
+    expect(engine.getState().playerHealth).toBeLessThan(PLAYER_MAX_HEALTH);
+    expect(engine.getState().logs).toContain('Out of breath! Swim up!');
+
+    wait(engine, 20);
+    expect(engine.getState().playerHealth).toBe(0);
+    expect(engine.getState().logs).toContain('CRITICAL ERROR: Connection Lost (Drowned).');
+  });
+
+  it('takes no damage during a sponsor break', () => {
+    const engine = submerge();
+    wait(engine, PLAYER_MAX_BREATH + 1);
+    const health = engine.getState().playerHealth;
+
+    engine.triggerAd('Test');
+    expect(engine.getState().activeEvent).toBe(GameEvent.AD_BREAK);
+    wait(engine, 2);
+    expect(engine.getState().playerHealth).toBe(health);
+  });
+});
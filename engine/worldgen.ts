@@ -0,0 +1,163 @@
+import { AIPlayer, AIAction, BiomeId, ItemType, NodeType, ResourceNodeData } from '../types';
+import { deriveRng, Rng } from '../utils/random';
+import { Terrain, WATER_LEVEL } from './terrain';
+import { BIOME_DATA } from '../data/biomes';
+import { NODE_DATA } from '../data/nodes';
+import { ITEMS } from './registry';
+import { CHUNK_SIZE, chunkCoords } from './chunks';
+
+const RESOURCES_PER_CHUNK = 7; // Spawn attempts, about the old 150 nodes on a 150m square
+
+const VEIN_ROLLS_PER_CHUNK = 2;
+
+// Deposit shapes: nodes strung along a line `length` long, spread `width` to either side
+const VEIN_SHAPES: Partial<Record<NodeType, { count: [number, number]; length: number; width: number }>> = {
+  COAL: { count: [4, 7], length: 10, width: 1.5 }, // Seams
+  COPPER: { count: [5, 8], length: 6, width: 5 }, // Broad fields
+  METAL: { count: [3, 5], length: 12, width: 1 } // Narrow veins
+};
+
+// Weighted pick from the biome's scatter table
+const rollNodeType = (biome: BiomeId, roll: number): NodeType => {
+  const weights = Object.entries(BIOME_DATA[biome].resources) as [NodeType, number][];
+  const total = weights.reduce((sum, [, w]) => sum + w, 0);
+  let remaining = roll * total;
+  for (const [type, weight] of weights) {
+    remaining -= weight;
+    if (remaining < 0) return type;
+  }
+  return weights[weights.length - 1][0];
+};
+
+// A fresh node of the given kind, or null where it can't grow (only scrap lies underwater)
+const createNode = (terrain: Terrain, id: string, type: NodeType, x: number, z: number): ResourceNodeData | null => {
+  const y = terrain.height(x, z);
+  if (y < WATER_LEVEL + 0.5 && type !== 'JUNK') return null;
+
+  const { drop, maxHealth, yield: fullYield, color } = NODE_DATA[type];
+  return {
+    id,
+    type,
+    position: [x, y, z],
+    health: maxHealth,
+    maxHealth,
+    drop,
+    color: color ?? ITEMS[drop].color,
+    yieldLeft: fullYield
+  };
+};
+
+// --- Generation Helper ---
+// Scatters up to `count` nodes over the square [x0, x0 + size) x [z0, z0 + size), each drawn from its biome
+export const generateResources = (terrain: Terrain, count: number, x0: number, z0: number, size: number, rng: Rng, idPrefix: string = 'node'): ResourceNodeData[] => {
+  const nodes: ResourceNodeData[] = [];
+  for (let i = 0; i < count; i++) {
+    const x = x0 + rng() * size;
+    const z = z0 + rng() * size;
+    const type = rollNodeType(terrain.biome(x, z), rng());
+    const node = createNode(terrain, `${idPrefix}-${i}`, type, x, z);
+    if (node) nodes.push(node);
+  }
+  return nodes;
+};
+
+// Clustered ore deposits. Each roll may start a vein of whatever the local biome is rich in.
+export const generateVeins = (terrain: Terrain, rolls: number, x0: number, z0: number, size: number, rng: Rng, idPrefix: string = 'vein'): ResourceNodeData[] => {
+  const nodes: ResourceNodeData[] = [];
+  for (let v = 0; v < rolls; v++) {
+    const cx = x0 + rng() * size;
+    const cz = z0 + rng() * size;
+    const roll = rng();
+
+    let chance = 0;
+    const type = (Object.entries(BIOME_DATA[terrain.biome(cx, cz)].veins) as [NodeType, number][])
+      .find(([, p]) => roll < (chance += p))?.[0];
+    const shape = type && VEIN_SHAPES[type];
+    if (!type || !shape) continue;
+
+    const [min, max] = shape.count;
+    const count = min + Math.floor(rng() * (max - min + 1));
+    const angle = rng() * Math.PI;
+    const [dx, dz] = [Math.cos(angle), Math.sin(angle)];
+    for (let j = 0; j < count; j++) {
+      const along = (rng() - 0.5) * shape.length;
+      const across = (rng() - 0.5) * 2 * shape.width;
+      const node = createNode(terrain, `${idPrefix}-${v}-${j}`, type, cx + dx * along - dz * across, cz + dz * along + dx * across);
+      if (node) nodes.push(node);
+    }
+  }
+  return nodes;
+};
+
+// A chunk's natural nodes. Seeded by chunk, so it looks the same whenever it is first visited.
+export const generateChunk = (terrain: Terrain, key: string): ResourceNodeData[] => {
+  const [cx, cz] = chunkCoords(key);
+  const rng = deriveRng(terrain.seed, 'chunk', key);
+  const [x0, z0] = [cx * CHUNK_SIZE, cz * CHUNK_SIZE];
+  const prefix = `node-${cx}_${cz}`;
+  return [
+    ...generateResources(terrain, RESOURCES_PER_CHUNK, x0, z0, CHUNK_SIZE, rng, prefix),
+    ...generateVeins(terrain, VEIN_ROLLS_PER_CHUNK, x0, z0, CHUNK_SIZE, rng, `${prefix}-v`)
+  ];
+};
+
+// startIndex is the running spawn counter, so respawned bots get unique ids and rotate names
+export const generateAIPlayers = (terrain: Terrain, count: number, resources: ResourceNodeData[], rng: Rng, startIndex: number = 0): AIPlayer[] => {
+  const bots: AIPlayer[] = [];
+  for (let i = 0; i < count; i++) {
+    const index = startIndex + i;
+    let x = 0, z = 0, y = 0;
+    let validPosition = false;
+    let attempts = 0;
+
+    // Try finding a safe spawn spot
+    while (!validPosition && attempts < 20) {
+        x = (rng() - 0.5) * 80;
+        z = (rng() - 0.5) * 80;
+        y = terrain.height(x, z);
+        
+        // Avoid water
+        if (y < -1.5) {
+            attempts++;
+            continue;
+        }
+
+        // Collision check against resources
+        let hit = false;
+        for (const r of resources) {
+            const dx = x - r.position[0];
+            const dz = z - r.position[2];
+            if (Math.sqrt(dx*dx + dz*dz) < 2.0) { // 2m safety radius
+                hit = true;
+                break;
+            }
+        }
+        
+        if (!hit) validPosition = true;
+        attempts++;
+    }
+    
+    bots.push({
+      id: `bot-${index}`,
+      name: `Bot-${['Alpha', 'Beta', 'Delta', 'Gamma', 'Omega', 'Zeta'][index % 6]}`,
+      position: [x, y, z],
+      rotation: rng() * Math.PI * 2,
+      action: AIAction.IDLE,
+      targetNodeId: null,
+      color: `hsl(${rng() * 360}, 60%, 50%)`,
+      inventory: {
+        // Give them a starter kit to build a rig immediately
+        [ItemType.CIRCUIT_BOARD]: 3,
+        [ItemType.FRAME]: 1,
+        [ItemType.PLASTIC]: 2,
+        [ItemType.COAL]: 5 // Fuel to keep going
+      },
+      health: 100,
+      maxHealth: 100,
+      aggression: rng(),
+      targetStructureId: null,
+      actionTimer: 0
+    });
+  }
+  return bots;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { exportBlueprint, importBlueprint, BLUEPRINT_VERSION } from './blueprintService';
+
+const HUT = {
+  id: 'bp-1',
+  name: 'Hut',
+  pieces: [
+    { type: ItemType.FOUNDATION, offset: [0, 0, 0] as [number, number, number], rotation: 0 },
+    { type: ItemType.WALL, offset: [0, 0.5, 1.5] as [number, number, number], rotation: 0 }
+  ]
+};
+
+const file = (pieces: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ version: BLUEPRINT_VERSION, name: 'Shed', pieces, ...extra });
+
+describe('blueprint import and export', () => {
+  it('round-trips a blueprint under a fresh id', () => {
+    const imported = importBlueprint(exportBlueprint(HUT))!;
+    expect(imported.id).not.toBe(HUT.id);
+    expect(imported.name).toBe('Hut');
+    expect(imported.pieces).toEqual(HUT.pieces);
+  });
+
+  it('rejects text that is not a blueprint', () => {
+    expect(importBlueprint('not json')).toBeNull();
+    expect(importBlueprint('null')).toBeNull();
+    expect(importBlueprint(file([]))).toBeNull();
+    expect(importBlueprint(file(HUT.pieces, { version: BLUEPRINT_VERSION + 1 }))).toBeNull();
+    expect(importBlueprint(file(HUT.pieces, { name: '  ' }))).toBeNull();
+  });
+
+  it('rejects pieces that are not placeable structures', () => {
+    expect(importBlueprint(file([{ type: 'NOPE', offset: [0, 0, 0], rotation: 0 }]))).toBeNull();
+    expect(importBlueprint(file([{ type: ItemType.COAL, offset: [0, 0, 0], rotation: 0 }]))).toBeNull();
+    expect(importBlueprint(file([{ type: ItemType.GPU, offset: [0, 0, 0], rotation: 0 }]))).toBeNull();
+  });
+
+  it('rejects broken offsets and rotations', () => {
+    expect(importBlueprint(file([{ type: ItemType.WALL, offset: [0, 0], rotation: 0 }]))).toBeNull();
+    expect(importBlueprint(file([{ type: ItemType.WALL, offset: [0, 0, 0], rotation: 'left' }]))).toBeNull();
+  });
+
+  it('keeps only the fields a piece needs', () => {
+    const imported = importBlueprint(file([{ type: ItemType.WALL, offset: [1, 2, 3], rotation: 0, health: 5 }]))!;
+    expect(imported.pieces).toEqual([{ type: ItemType.WALL, offset: [1, 2, 3], rotation: 0 }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { Blueprint, BlueprintPiece } from '../types';
+import { isStructureItem } from '../engine/registry';
+import { readKey, writeKey } from '../utils/storage';
+
+// --- Blueprint Library ---
+// Blueprints belong to the player rather than a world, so they live under their own key and
+// carry over between save slots. Shared as JSON files of a single blueprint.
+
+export const BLUEPRINT_VERSION = 1;
+export const MAX_BLUEPRINT_PIECES = 64;
+
+const BLUEPRINTS_KEY = 'cryptominer:blueprints';
+
+// A blueprint as shared between players: no id, that is handed out on import
+interface BlueprintFile {
+  version: number;
+  name: string;
+  pieces: BlueprintPiece[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+const isVector = (v: unknown): v is [number, number, number] =>
+  Array.isArray(v) && v.length === 3 && v.every(isFiniteNumber);
+
+// Only placeable items; anything else would be used up to build something with no model or rules
+const isValidPiece = (piece: unknown): piece is BlueprintPiece =>
+  isRecord(piece) && typeof piece.type === 'string' && isStructureItem(piece.type) &&
+  isVector(piece.offset) && isFiniteNumber(piece.rotation);
+
+const isValidBlueprint = (bp: unknown): bp is Omit<Blueprint, 'id'> =>
+  isRecord(bp) && typeof bp.name === 'string' && bp.name.trim().length > 0 &&
+  Array.isArray(bp.pieces) && bp.pieces.length > 0 && bp.pieces.length <= MAX_BLUEPRINT_PIECES &&
+  bp.pieces.every(isValidPiece);
+
+export const newBlueprintId = () => `bp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadBlueprints = (): Blueprint[] => {
+  const text = readKey(BLUEPRINTS_KEY);
+  if (text === null) return [];
+  try {
+    const data: unknown = JSON.parse(text);
+    if (!isRecord(data) || !isFiniteNumber(data.version) || data.version > BLUEPRINT_VERSION || !Array.isArray(data.blueprints)) return [];
+    // Drop entries that no longer make sense (e.g. an item that was removed) instead of the whole library
+    return data.blueprints.filter((bp: unknown): bp is Blueprint => isRecord(bp) && typeof bp.id === 'string' && isValidBlueprint(bp));
+  } catch (error) {
+    console.error("Blueprint Parse Error:", error);
+    return [];
+  }
+};
+
+export const storeBlueprints = (blueprints: Blueprint[]): boolean =>
+  writeKey(BLUEPRINTS_KEY, JSON.stringify({ version: BLUEPRINT_VERSION, blueprints }));
+
+export const exportBlueprint = (blueprint: Blueprint): string => {
+  const file: BlueprintFile = { version: BLUEPRINT_VERSION, name: blueprint.name, pieces: blueprint.pieces };
+  return JSON.stringify(file, null, 2);
+};
+
+// Null when the text isn't a blueprint this version understands
+export const importBlueprint = (text: string): Blueprint | null => {
+  try {
+    const file: unknown = JSON.parse(text);
+    if (!isRecord(file) || !isFiniteNumber(file.version) || file.version > BLUEPRINT_VERSION || !isValidBlueprint(file)) return null;
+    const pieces = file.pieces.map(({ type, offset, rotation }) => ({ type, offset, rotation }));
+    return { id: newBlueprintId(), name: file.name.trim(), pieces };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { GameEvent } from '../types';
+import { createTerrain } from '../engine/terrain';
+import { migrateSave, SAVE_VERSION } from './saveService';
+
+// A v1 save as the first release wrote it: items by display name, no seed, no queue
+const V1_SAVE = {
+  version: 1,
+  savedAt: 1700000000000,
+  money: 12.5,
+  globalPot: 2000,
+  ownerBalance: 3,
+  inventory: { 'Stone': 4, 'Mining Rig': 1 },
+  resources: [{ id: 'r1', type: 'STONE', position: [0, 0, 0], health: 50, maxHealth: 50, drop: 'Stone' }],
+  structures: [{ id: 's1', type: 'Mining Rig', position: [1, 0, 1], rotation: 0, corrosion: 0.5 }],
+  aiPlayers: [{ id: 'bot-1', inventory: { 'Wood': 2 } }],
+  playerPos: [0, 5, 5, 1, 0]
+};
+
+describe('save migrations', () => {
+  it('brings a v1 save up to the current version', () => {
+    const save = migrateSave(V1_SAVE);
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.seed).toBe('legacy-1700000000000');
+    expect(save.activeEvent).toBe(GameEvent.NONE);
+    expect(save.craftQueue).toEqual([]);
+    expect(save.playerHealth).toBe(100);
+    expect(save.playerBreath).toBe(20);
+    expect(save.loadedChunks).toHaveLength(64);
+  });
+
+  it('renames items stored by display name to registry ids', () => {
+    const save = migrateSave(V1_SAVE);
+    expect(save.inventory).toEqual({ STONE: 4, MINING_RIG: 1 });
+    expect(save.resources[0].drop).toBe('STONE');
+    expect(save.structures[0].type).toBe('MINING_RIG');
+    expect(save.aiPlayers[0].inventory).toEqual({ WOOD: 2 });
+  });
+
+  it('turns acid rain corrosion into lost structure health', () => {
+    const [rig] = migrateSave(V1_SAVE).structures;
+    expect(rig.maxHealth).toBe(100);
+    expect(rig.health).toBe(50);
+    expect('corrosion' in rig).toBe(false);
+  });
+
+  it('moves structures from before the noise terrain onto the new ground, keeping stacks together', () => {
+    // A foundation on the old sine ground at (30, 30), which stood at 4.99m there, with a wall on its edge
+    const base = { id: 'f', type: 'FOUNDATION', position: [30, 4.99, 30], rotation: 0, health: 400, maxHealth: 400 };
+    const wall = { id: 'w', type: 'WALL', position: [31.5, 5.49, 30], rotation: Math.PI / 2, health: 200, maxHealth: 200 };
+    const save = migrateSave({ ...migrateSave(V1_SAVE), version: 8, structures: [base, wall] });
+
+    const ground = createTerrain(save.seed).height(30, 30);
+    const [movedBase, movedWall] = save.structures;
+    expect(movedBase.position[1]).toBeCloseTo(ground, 1);
+    expect(movedWall.position[1] - movedBase.position[1]).toBeCloseTo(0.5);
+    expect(movedWall.position[0]).toBe(31.5);
+  });
+
+  it('leaves structures of saves made on the noise terrain where they are', () => {
+    const rig = { id: 'r', type: 'MINING_RIG', position: [1, 2, 3], rotation: 0, health: 100, maxHealth: 100 };
+    const save = migrateSave({ ...migrateSave(V1_SAVE), version: 9, structures: [rig] });
+    expect(save.structures[0].position).toEqual([1, 2, 3]);
+  });
+
+  it('leaves a current save alone', () => {
+    const current = { ...V1_SAVE, version: SAVE_VERSION };
+    expect(migrateSave(current)).toEqual(current);
+  });
+
+  it('refuses saves from a newer version', () => {
+    expect(() => migrateSave({ ...V1_SAVE, version: SAVE_VERSION + 1 })).toThrow(/newer/);
+  });
+});
@@ -0,0 +1,269 @@
+import { GameEvent, ItemType } from '../types';
+import { WorldSnapshot } from '../engine/types';
+import { isItemType } from '../engine/registry';
+import { createTerrain } from '../engine/terrain';
+import { readKey, writeKey } from '../utils/storage';
+
+export const SAVE_VERSION = 12;
+export const SAVE_SLOTS = ['slot-1', 'slot-2', 'slot-3'];
+export const AUTOSAVE_INTERVAL = 30000; // ms
+
+const SAVE_PREFIX = 'cryptominer:save:';
+const ACTIVE_SLOT_KEY = 'cryptominer:activeSlot';
+
+export interface SaveGame extends WorldSnapshot {
+  version: number;
+  savedAt: number;
+}
+
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: number | null;
+  money: number;
+  rigs: number;
+  seed: string | null;
+  corrupt: boolean;
+}
+
+export type LoadResult =
+  | { status: 'ok'; save: SaveGame; fromBackup: boolean }
+  | { status: 'empty' }
+  | { status: 'corrupt' };
+
+// Up to v4 items were stored by display name. Frozen copy, don't follow later renames.
+const LEGACY_ITEM_IDS: Record<string, string> = {
+  'Stone': 'STONE',
+  'Metal Ore': 'METAL_ORE',
+  'Copper Ore': 'COPPER_ORE',
+  'Wood': 'WOOD',
+  'Resin': 'RESIN',
+  'Coal': 'COAL',
+  'Scrap': 'SCRAP',
+  'Silicon': 'SILICON',
+  'Steel': 'STEEL',
+  'Copper Wire': 'COPPER_WIRE',
+  'Plastic': 'PLASTIC',
+  'Circuit Board': 'CIRCUIT_BOARD',
+  'Frame': 'FRAME',
+  'Mining Rig': 'MINING_RIG',
+  'Stone Foundation': 'FOUNDATION',
+  'Wooden Wall': 'WALL',
+  'Wooden Roof': 'ROOF'
+};
+
+// Chunks covering the fixed 200m map worlds had up to v7 (32m chunks, frozen like the table above)
+const LEGACY_MAP_CHUNKS: string[] = [];
+for (let cz = -4; cz <= 3; cz++) {
+  for (let cx = -4; cx <= 3; cx++) LEGACY_MAP_CHUNKS.push(`${cx},${cz}`);
+}
+
+// Structure durability as introduced in v11, frozen like the tables above
+const LEGACY_MAX_HEALTH: Record<string, number> = {
+  MINING_RIG: 100,
+  FOUNDATION: 400,
+  WALL: 200,
+  ROOF: 150,
+  COAL_GENERATOR: 150,
+  SOLAR_PANEL: 60,
+  POWER_POLE: 80,
+  FAN: 60,
+  WATER_COOLER: 120
+};
+
+// Ground up to v8, before the seeded noise terrain. Frozen like the tables above.
+const legacyTerrainHeight = (x: number, z: number): number =>
+  (Math.sin(x * 0.02) + Math.cos(z * 0.02)) * 4 +
+  (Math.sin(x * 0.05 + 1) + Math.cos(z * 0.05 + 2)) * 2 +
+  Math.sin(x * 0.15) * Math.cos(z * 0.15) * 0.5;
+
+// Structures this close together are taken to be built onto each other and move as one
+const LEGACY_LINK_RANGE = 5; // m
+
+// Moves every group of touching structures by how much the ground rose or sank under its lowest piece,
+// so bases keep standing on the ground and the pieces on them stay put on their sockets
+const regroundStructures = (structures: any[], seed: string): any[] => {
+  const terrain = createTerrain(seed);
+  const group = structures.map((_, i) => i);
+  const root = (i: number): number => (group[i] === i ? i : (group[i] = root(group[i])));
+  structures.forEach((a, i) => structures.forEach((b, j) => {
+    if (j > i && Math.hypot(a.position[0] - b.position[0], a.position[2] - b.position[2]) <= LEGACY_LINK_RANGE) {
+      group[root(i)] = root(j);
+    }
+  }));
+
+  // The lowest piece of each group is the one standing on the ground
+  const bases = new Map<number, any>();
+  structures.forEach((s, i) => {
+    const base = bases.get(root(i));
+    if (!base || s.position[1] < base.position[1]) bases.set(root(i), s);
+  });
+  return structures.map((s, i) => {
+    const [bx, , bz] = bases.get(root(i)).position;
+    const rise = terrain.height(bx, bz) - legacyTerrainHeight(bx, bz);
+    return { ...s, position: [s.position[0], s.position[1] + rise, s.position[2]] };
+  });
+};
+
+const legacyId = (name: string) => LEGACY_ITEM_IDS[name] ?? name;
+
+const migrateInventory = (inv: Record<string, number> = {}) =>
+  Object.fromEntries(Object.entries(inv).map(([name, count]) => [legacyId(name), count]));
+
+// Each entry upgrades a save from version N to N + 1.
+// Never edit an existing step once released, add a new one instead.
+// `from` is the version the save was written with.
+const MIGRATIONS: Record<number, (save: any, from: number) => any> = {
+  // v1 -> v2: worlds became seeded. Old worlds get a stable placeholder seed for future respawns.
+  1: save => ({
+    ...save,
+    seed: `legacy-${save.savedAt ?? 0}`,
+    botSpawns: Array.isArray(save.aiPlayers) ? save.aiPlayers.length : 0
+  }),
+  // v2 -> v3: pending world timers and weather are saved. The engine re-arms missing respawns on load.
+  2: save => ({
+    ...save,
+    activeEvent: GameEvent.NONE,
+    timers: []
+  }),
+  // v3 -> v4: timed crafting queue
+  3: save => ({ ...save, craftQueue: [] }),
+  // v4 -> v5: items are stored by registry id instead of display name
+  4: save => ({
+    ...save,
+    inventory: migrateInventory(save.inventory),
+    resources: (save.resources ?? []).map((r: any) => ({ ...r, drop: legacyId(r.drop) })),
+    structures: (save.structures ?? []).map((s: any) => ({ ...s, type: legacyId(s.type) })),
+    aiPlayers: (save.aiPlayers ?? []).map((b: any) => ({ ...b, inventory: migrateInventory(b.inventory) })),
+    craftQueue: (save.craftQueue ?? []).map((j: any) => ({
+      ...j,
+      output: legacyId(j.output),
+      ...(j.awaiting ? { awaiting: j.awaiting.map((a: any) => ({ ...a, item: legacyId(a.item) })) } : {})
+    }))
+  }),
+  // v5 -> v6: player health
+  5: save => ({ ...save, playerHealth: 100 }),
+  // v6 -> v7: bot combat state. Existing bots get a middle-of-the-road temper.
+  6: save => ({
+    ...save,
+    aiPlayers: (save.aiPlayers ?? []).map((b: any) => ({ ...b, aggression: 0.5, targetStructureId: null, actionTimer: 0 }))
+  }),
+  // v7 -> v8: streamed chunks. The old map counts as visited so it isn't generated a second time.
+  7: save => ({ ...save, loadedChunks: LEGACY_MAP_CHUNKS, storedChunks: {} }),
+  // v8 -> v9: breath meter, saved with full lungs
+  8: save => ({ ...save, playerBreath: 20 }),
+  // v9 -> v10: day/night cycle, older worlds wake up in the morning
+  9: save => ({ ...save, timeOfDay: 0.3, dayLength: 600 }),
+  // v10 -> v11: structure health. Acid rain corrosion becomes lost health.
+  10: save => ({
+    ...save,
+    structures: (save.structures ?? []).map(({ corrosion, ...s }: any) => {
+      const maxHealth = LEGACY_MAX_HEALTH[s.type] ?? 100;
+      return { ...s, maxHealth, health: Math.max(1, maxHealth * (1 - (corrosion ?? 0))) };
+    })
+  }),
+  // v11 -> v12: ground has come from the seeded noise terrain since v9, but structures in saves
+  // written before that were left at the old heights
+  11: (save, from) => from > 8 ? save : { ...save, structures: regroundStructures(save.structures ?? [], save.seed) }
+};
+
+export const slotLabel = (slot: string) => `Slot ${SAVE_SLOTS.indexOf(slot) + 1}`;
+
+const saveKey = (slot: string) => `${SAVE_PREFIX}${slot}`;
+const backupKey = (slot: string) => `${saveKey(slot)}:backup`;
+const corruptKey = (slot: string) => `${saveKey(slot)}:corrupt`;
+
+export const migrateSave = (raw: any): SaveGame => {
+  let save = raw;
+  let version = typeof save.version === 'number' ? save.version : 0;
+  const from = version;
+
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than supported version ${SAVE_VERSION}`);
+  }
+
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from save version ${version}`);
+    save = { ...step(save, from), version: version + 1 };
+    version++;
+  }
+  return save as SaveGame;
+};
+
+const isValidSave = (save: any): save is SaveGame => {
+  if (!save || typeof save !== 'object') return false;
+  const numbers = [save.money, save.globalPot, save.ownerBalance, save.playerHealth, save.playerBreath, save.timeOfDay, save.dayLength];
+  if (numbers.some(n => typeof n !== 'number' || !Number.isFinite(n))) return false;
+  if (typeof save.seed !== 'string' || typeof save.botSpawns !== 'number') return false;
+  if (!save.inventory || typeof save.inventory !== 'object') return false;
+  if (!Array.isArray(save.resources) || !Array.isArray(save.structures) || !Array.isArray(save.aiPlayers)) return false;
+  if (!Array.isArray(save.playerPos) || save.playerPos.length !== 5) return false;
+  if (!Array.isArray(save.timers) || typeof save.activeEvent !== 'string') return false;
+  if (!Array.isArray(save.craftQueue)) return false;
+  if (!Array.isArray(save.loadedChunks) || !save.storedChunks || typeof save.storedChunks !== 'object') return false;
+  // Unknown item ids would break rendering and crafting further down
+  if (save.resources.some((r: any) => !isItemType(r.drop)) || save.structures.some((s: any) => !isItemType(s.type))) return false;
+  if (save.structures.some((s: any) => !Number.isFinite(s.health) || !Number.isFinite(s.maxHealth))) return false;
+  return true;
+};
+
+const parseSave = (text: string): SaveGame | null => {
+  try {
+    const save = migrateSave(JSON.parse(text));
+    return isValidSave(save) ? save : null;
+  } catch (error) {
+    console.error("Save Parse Error:", error);
+    return null;
+  }
+};
+
+export const readSave = (slot: string): LoadResult => {
+  const text = readKey(saveKey(slot));
+  if (text === null) return { status: 'empty' };
+
+  const save = parseSave(text);
+  if (save) return { status: 'ok', save, fromBackup: false };
+
+  // Keep the broken payload around for bug reports, then try the previous good write
+  writeKey(corruptKey(slot), text);
+  const backupText = readKey(backupKey(slot));
+  const backup = backupText ? parseSave(backupText) : null;
+  if (backup) return { status: 'ok', save: backup, fromBackup: true };
+
+  return { status: 'corrupt' };
+};
+
+export const writeSave = (slot: string, save: WorldSnapshot): boolean => {
+  const previous = readKey(saveKey(slot));
+  if (previous !== null && parseSave(previous)) {
+    writeKey(backupKey(slot), previous);
+  }
+  const payload: SaveGame = { ...save, version: SAVE_VERSION, savedAt: Date.now() };
+  return writeKey(saveKey(slot), JSON.stringify(payload));
+};
+
+export const listSaveSlots = (): SaveSlotInfo[] => SAVE_SLOTS.map(slot => {
+  const text = readKey(saveKey(slot));
+  if (text === null) return { slot, savedAt: null, money: 0, rigs: 0, seed: null, corrupt: false };
+
+  const save = parseSave(text);
+  if (!save) return { slot, savedAt: null, money: 0, rigs: 0, seed: null, corrupt: true };
+
+  return {
+    slot,
+    savedAt: save.savedAt,
+    money: save.money,
+    rigs: save.structures.filter(s => !s.ownerId && s.type === ItemType.MINING_RIG).length,
+    seed: save.seed,
+    corrupt: false
+  };
+});
+
+export const getActiveSlot = (): string => {
+  const slot = readKey(ACTIVE_SLOT_KEY);
+  return slot && SAVE_SLOTS.includes(slot) ? slot : SAVE_SLOTS[0];
+};
+
+export const setActiveSlot = (slot: string) => {
+  writeKey(ACTIVE_SLOT_KEY, slot);
+};
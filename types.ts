@@ -1,29 +1,113 @@
 
-export enum ItemType {
-  // Raw
-  STONE = 'Stone',
-  METAL_ORE = 'Metal Ore',
-  COPPER_ORE = 'Copper Ore',
-  WOOD = 'Wood',
-  RESIN = 'Resin',
-  COAL = 'Coal',
-  SCRAP = 'Scrap',
-  
-  // Processed
-  SILICON = 'Silicon',
-  STEEL = 'Steel',
-  COPPER_WIRE = 'Copper Wire',
-  PLASTIC = 'Plastic',
-  
-  // Components
-  CIRCUIT_BOARD = 'Circuit Board',
-  FRAME = 'Frame',
-  
-  // Buildings/Final
-  MINING_RIG = 'Mining Rig',
-  FOUNDATION = 'Stone Foundation',
-  WALL = 'Wooden Wall',
-  ROOF = 'Wooden Roof'
+import { ITEM_DATA } from './data/items';
+
+// Item ids. Names, icons and the rest live in the registry (data/items.ts)
+export type ItemType = keyof typeof ITEM_DATA;
+export const ItemType = Object.fromEntries(Object.keys(ITEM_DATA).map(id => [id, id])) as { readonly [K in ItemType]: K };
+
+export type ItemCategory = 'raw' | 'processed' | 'component' | 'structure';
+export type ItemMesh = 'log' | 'rock' | 'box'; // How a loose stack of the item is drawn
+
+export interface ItemDef {
+  name: string;
+  icon: string;
+  color: string;
+  stackSize: number; // Most units a single loose pile holds
+  category: ItemCategory;
+  mesh: ItemMesh;
+}
+
+// Resource node kinds that grow in the world (loose piles are dropped, not generated)
+export type NodeType = Exclude<ResourceNodeData['type'], 'LOOSE_ITEM'>;
+
+// What happens once a node is used up: moves elsewhere in its chunk, grows back in place,
+// or refills one unit at a time in place
+export type NodeRegrowth = 'respawn' | 'regrow' | 'replenish';
+
+export interface NodeDef {
+  drop: ItemType;
+  maxHealth: number; // Hits per unit
+  yield: number; // Units before the node is depleted
+  regrowth: NodeRegrowth;
+  regrowTime: number; // s until it respawns or regrows, or per unit replenished
+  color?: string; // Defaults to the drop's colour
+}
+
+// Bonus roll when the player breaks a submerged junk pile
+export interface SalvageDrop {
+  item: ItemType;
+  chance: number; // 0..1, rolled independently per entry
+  min: number;
+  max: number;
+}
+
+// How a structure takes part in a power grid (data/power.ts). Watts throughout.
+export interface PowerDef {
+  supply?: number; // Produced while running
+  demand?: number; // Drawn while connected
+  reach: number; // m a cable spans to the next grid member
+  solar?: boolean; // Supply follows daylight
+  fuel?: ItemType; // Burnt from the fuel slot to run
+  burnTime?: number; // s per unit of fuel
+  fuelSlot?: number; // Units the slot holds
+}
+
+// One step of the mining rig hardware line
+export interface RigTierDef {
+  name: string;
+  hashRate: number; // Output relative to the base rig
+  demand: number; // W drawn from the grid
+  heat: number; // °C/s at full load
+  upgrade: ItemStack[]; // Parts fitted to reach this tier from the one below
+}
+
+// A structure that carries heat away from rigs around it (data/thermal.ts)
+export interface CoolerDef {
+  cooling: number; // Heat transfer per °C above ambient, split between the rigs in range
+  range: number; // m
+}
+
+// A point on a placed structure where another piece attaches, in the host's own frame
+export interface SocketDef {
+  offset: [number, number, number]; // m from the host's anchor
+  rotation: number; // Added to the host's rotation
+  accepts: ItemType[];
+}
+
+// Build-wide properties of a placeable structure (data/structures.ts)
+export interface StructureDef {
+  maxHealth: number;
+  size: [number, number, number]; // m, width x height x depth of the solid part before rotation
+  base: number; // m from the anchor down to the bottom of that box
+  maxDrop?: number; // m the ground may fall away across the footprint
+  grounded?: boolean; // Has to reach down to the ground
+  sockets?: SocketDef[]; // Pieces with sockets make up bases and obey support rules
+  groundStability?: number; // Stability when resting on the ground itself, 0..100
+  stabilityLoss?: number; // Stability lost per metre away from the piece holding it up
+}
+
+// One piece of a blueprint, in the frame of the piece it was anchored on
+export interface BlueprintPiece {
+  type: ItemType;
+  offset: [number, number, number]; // m from the anchor piece, before the blueprint is turned
+  rotation: number; // Added to the rotation the blueprint is placed with
+}
+
+// A group of placed structures saved to be built again in one go
+export interface Blueprint {
+  id: string;
+  name: string;
+  pieces: BlueprintPiece[]; // In build order; the first one is the anchor
+}
+
+export type BiomeId = 'FOREST' | 'HIGHLANDS' | 'WASTELAND' | 'SHORELINE';
+
+export interface BiomeDef {
+  name: string;
+  ground: [string, string]; // Ground colours, blended by a detail noise
+  resources: Record<NodeType, number>; // Relative weights of single scattered nodes
+  veins: Partial<Record<NodeType, number>>; // Chance per vein roll of a clustered deposit
+  temperature: number; // °C in the shade at midday, rigs cool towards it
 }
 
 export enum GameEvent {
@@ -32,13 +116,36 @@ export enum GameEvent {
   AD_BREAK = 'Brand Deal / Sponsor'
 }
 
+export interface ItemStack {
+  item: ItemType;
+  count: number;
+}
+
+// Recipe as written in the data file, before its item ids are checked
+export interface RecipeData {
+  output: string;
+  count: number;
+  inputs: { item: string; count: number }[];
+  craftTime: number;
+}
+
 export interface Recipe {
   output: ItemType;
   count: number;
-  inputs: { item: ItemType; count: number }[];
+  inputs: ItemStack[];
   craftTime: number; // seconds
 }
 
+// One entry in the player's fabrication queue. Inputs for every batch are reserved when queued.
+export interface CraftJob {
+  id: string;
+  output: ItemType; // Identifies the recipe
+  quantity: number; // Batches still to craft, including the one in progress
+  progress: number; // Seconds spent on the current batch
+  // Chained jobs: inputs made by earlier jobs in the queue, taken when this job starts
+  awaiting?: ItemStack[];
+}
+
 export interface ResourceNodeData {
   id: string;
   type: 'TREE' | 'STONE' | 'METAL' | 'COPPER' | 'COAL' | 'JUNK' | 'LOOSE_ITEM';
@@ -47,6 +154,9 @@ export interface ResourceNodeData {
   maxHealth: number;
   drop: ItemType;
   color: string;
+  respawns?: number; // Times this node has regrown, keys its seeded respawn location
+  amount?: number; // Loose items only: units in the pile (defaults to 1)
+  yieldLeft?: number; // Units left before depletion (defaults to the type's full yield)
 }
 
 export interface Structure {
@@ -55,6 +165,13 @@ export interface Structure {
   position: [number, number, number];
   rotation: number;
   ownerId?: string;
+  health: number;
+  maxHealth: number;
+  fuel?: number; // Units waiting in the fuel slot (generators)
+  burnLeft?: number; // s left on the unit being burnt
+  tier?: number; // Hardware tier, 1 when unset (rigs, see data/rigs.ts)
+  temperature?: number; // °C (rigs)
+  overheated?: boolean; // Shut down until it has cooled off (rigs)
 }
 
 export interface InventoryItem {
@@ -65,7 +182,11 @@ export interface InventoryItem {
 export enum AIAction {
   IDLE = 'IDLE',
   MOVING = 'MOVING',
-  MINING = 'MINING'
+  MINING = 'MINING',
+  // Combat
+  FLEEING = 'FLEEING',
+  ATTACKING = 'ATTACKING',
+  DEFENDING = 'DEFENDING' // Guarding one of its rigs, or walking back to re-hack a stolen one
 }
 
 export interface AIPlayer {
@@ -79,108 +200,12 @@ export interface AIPlayer {
   inventory: Record<string, number>;
   health: number;
   maxHealth: number;
+  aggression: number; // 0 always runs, 1 always fights back and guards its rigs
+  targetStructureId: string | null; // Rig being guarded or re-hacked
+  actionTimer: number; // Seconds until the next swing, or re-hack progress
 }
 
 export const AD_REVENUE = 1000; // Brand deal amount
 export const MAX_POT = 10000;
 export const OWNER_FEE = 0.05; // 5% Commission on Cash Out
 export const BRAND_SPLIT = 0.50; // 50% Split on Brand Deals
-
-export const RECIPES: Recipe[] = [
-  // Processing Raw Materials
-  {
-    output: ItemType.SILICON,
-    count: 1,
-    inputs: [{ item: ItemType.STONE, count: 2 }, { item: ItemType.COAL, count: 1 }],
-    craftTime: 2
-  },
-  {
-    output: ItemType.STEEL,
-    count: 1,
-    inputs: [{ item: ItemType.METAL_ORE, count: 2 }, { item: ItemType.COAL, count: 1 }],
-    craftTime: 3
-  },
-  {
-    output: ItemType.COPPER_WIRE,
-    count: 2,
-    inputs: [{ item: ItemType.COPPER_ORE, count: 1 }, { item: ItemType.COAL, count: 1 }],
-    craftTime: 2
-  },
-  {
-    output: ItemType.PLASTIC,
-    count: 1,
-    inputs: [{ item: ItemType.RESIN, count: 2 }, { item: ItemType.COAL, count: 1 }],
-    craftTime: 2
-  },
-  
-  // Components
-  {
-    output: ItemType.CIRCUIT_BOARD,
-    count: 1,
-    inputs: [
-      { item: ItemType.SILICON, count: 2 },
-      { item: ItemType.COPPER_WIRE, count: 3 },
-      { item: ItemType.PLASTIC, count: 1 }
-    ],
-    craftTime: 5
-  },
-  {
-    output: ItemType.FRAME,
-    count: 1,
-    inputs: [
-      { item: ItemType.STEEL, count: 4 },
-      { item: ItemType.SCRAP, count: 2 }
-    ],
-    craftTime: 4
-  },
-
-  // Final
-  {
-    output: ItemType.MINING_RIG,
-    count: 1,
-    inputs: [
-      { item: ItemType.CIRCUIT_BOARD, count: 3 },
-      { item: ItemType.FRAME, count: 1 },
-      { item: ItemType.PLASTIC, count: 2 }
-    ],
-    craftTime: 10
-  },
-  {
-    output: ItemType.FOUNDATION,
-    count: 1,
-    inputs: [{ item: ItemType.STONE, count: 4 }, { item: ItemType.WOOD, count: 1 }],
-    craftTime: 5
-  },
-  {
-    output: ItemType.WALL,
-    count: 1,
-    inputs: [{ item: ItemType.WOOD, count: 4 }],
-    craftTime: 3
-  },
-  {
-    output: ItemType.ROOF,
-    count: 1,
-    inputs: [{ item: ItemType.WOOD, count: 4 }],
-    craftTime: 3
-  }
-];
-
-export const ITEM_ICONS: Record<ItemType, string> = {
-  [ItemType.STONE]: '🪨',
-  [ItemType.METAL_ORE]: '⛰️',
-  [ItemType.COPPER_ORE]: '🟠',
-  [ItemType.WOOD]: '🪵',
-  [ItemType.RESIN]: '💧',
-  [ItemType.COAL]: '⚫',
-  [ItemType.SCRAP]: '🔩',
-  [ItemType.SILICON]: '⬛',
-  [ItemType.STEEL]: '⛓️',
-  [ItemType.COPPER_WIRE]: '➰',
-  [ItemType.PLASTIC]: '🥤',
-  [ItemType.CIRCUIT_BOARD]: '📟',
-  [ItemType.FRAME]: '🏗️',
-  [ItemType.MINING_RIG]: '💻',
-  [ItemType.FOUNDATION]: '⬛',
-  [ItemType.WALL]: '🧱',
-  [ItemType.ROOF]: '⛺'
-};
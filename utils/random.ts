@@ -0,0 +1,35 @@
+// --- Seeded Randomness ---
+// Everything that shapes the world draws from these instead of Math.random(),
+// so the same seed always reproduces the same map.
+
+export type Rng = () => number;
+
+// FNV-1a string hash, used to turn text seeds into 32-bit integers
+export const hashSeed = (input: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny, fast and identical on every JS engine. Returns floats in [0, 1)
+export const createRng = (seed: number | string): Rng => {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent stream keyed by purpose, e.g. deriveRng(seed, 'respawn', nodeId, 2).
+// Keeps results stable no matter in which order the player triggers events.
+export const deriveRng = (seed: string, ...parts: (string | number)[]): Rng => {
+  return createRng([seed, ...parts].join(':'));
+};
+
+// Only used to pick a fresh seed, never for world content
+export const randomSeed = (): string => Math.random().toString(36).slice(2, 10);
@@ -0,0 +1,21 @@
+// --- Local Storage ---
+// localStorage can be missing (SSR/tests) or throw (privacy mode, quota)
+
+export const readKey = (key: string): string | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeKey = (key: string, value: string): boolean => {
+  try {
+    if (typeof localStorage === 'undefined') return false;
+    localStorage.setItem(key, value);
+    return true;
+  } catch (error) {
+    console.error("Save Error:", error);
+    return false;
+  }
+};